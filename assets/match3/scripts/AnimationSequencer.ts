@@ -0,0 +1,215 @@
+import { Tween, TweenEasing, tween } from 'cc';
+
+/**
+ * ANIMATION SEQUENCER
+ * 
+ * Single place for every board animation's duration and easing.
+ * Match3Game describes what should move (target + property steps) and
+ * the sequencer plays it at the current speed, always returning a
+ * Promise that resolves once the animation is done.
+ * 
+ * SPEEDS:
+ * - relaxed: slower, for showcases and accessibility
+ * - normal:  default game feel
+ * - turbo:   same animations at roughly a third of the duration
+ * - instant: no tweens at all, final values are applied immediately
+ *            (autoplay, tests, impatient players)
+ * 
+ * Individual timings can be overridden with setTiming(), e.g. to tune
+ * the fall speed of one level without touching the others.
+ */
+
+export type AnimationSpeed = 'relaxed' | 'normal' | 'turbo' | 'instant';
+
+export type AnimationName =
+    | 'swap'
+    | 'rotation'
+    | 'fall'
+    | 'fallStep'
+    | 'spawnStep'
+    | 'spawnRoundDelay'
+    | 'removal'
+    | 'shuffleShrink'
+    | 'shuffleFly'
+    | 'shuffleRestore'
+    | 'appear'
+    | 'highlight'
+    | 'hintPulse'
+    | 'comboGrow'
+    | 'comboSettle';
+
+export interface AnimationTiming {
+    duration: number;       // seconds
+    easing?: TweenEasing;   // cc easing name, linear when omitted
+}
+
+export type AnimationTimings = Record<AnimationName, AnimationTiming>;
+
+/**
+ * ANIMATION STEP
+ * One tween segment: animate props on the target using the named timing
+ * A step without props just waits for the timing's duration
+ */
+export interface AnimationStep {
+    name: AnimationName;
+    props?: { [property: string]: any };
+}
+
+export const NORMAL_TIMINGS: AnimationTimings = {
+    swap: { duration: 0.3, easing: 'quadInOut' },
+    rotation: { duration: 0.5, easing: 'sineInOut' },
+    fall: { duration: 0.2, easing: 'quadIn' },
+    fallStep: { duration: 0.1 },
+    spawnStep: { duration: 0.1 },
+    spawnRoundDelay: { duration: 0.1 },
+    removal: { duration: 0.3, easing: 'backIn' },
+    shuffleShrink: { duration: 0.15, easing: 'quadOut' },
+    shuffleFly: { duration: 0.4, easing: 'sineInOut' },
+    shuffleRestore: { duration: 0.15, easing: 'quadIn' },
+    appear: { duration: 0.3, easing: 'backOut' },
+    highlight: { duration: 0.1 },
+    hintPulse: { duration: 0.4, easing: 'sineInOut' },
+    comboGrow: { duration: 0.15, easing: 'quadOut' },
+    comboSettle: { duration: 0.1 }
+};
+
+const SPEED_SCALE: Record<Exclude<AnimationSpeed, 'instant'>, number> = {
+    relaxed: 1.5,
+    normal: 1,
+    turbo: 0.35
+};
+
+/**
+ * CREATE TIMING PRESET
+ * Normal timings with every duration scaled (easings kept)
+ */
+export function createTimingPreset(scale: number, base: AnimationTimings = NORMAL_TIMINGS): AnimationTimings {
+    const preset = {} as AnimationTimings;
+    for (const name of Object.keys(base) as AnimationName[]) {
+        preset[name] = { duration: base[name].duration * scale, easing: base[name].easing };
+    }
+    return preset;
+}
+
+export function isAnimationSpeed(value: string): value is AnimationSpeed {
+    return value === 'instant' || SPEED_SCALE[value] !== undefined;
+}
+
+export class AnimationSequencer {
+    private speed: AnimationSpeed = 'normal';
+    private timings: AnimationTimings = createTimingPreset(1);
+    private overrides: Partial<AnimationTimings> = {};
+    
+    constructor(speed: AnimationSpeed = 'normal') {
+        this.setSpeed(speed);
+    }
+    
+    getSpeed(): AnimationSpeed {
+        return this.speed;
+    }
+    
+    setSpeed(speed: AnimationSpeed) {
+        this.speed = speed;
+        if (speed !== 'instant') {
+            this.timings = createTimingPreset(SPEED_SCALE[speed]);
+        }
+    }
+    
+    isInstant(): boolean {
+        return this.speed === 'instant';
+    }
+    
+    /**
+     * SET TIMING
+     * Overrides one animation at normal speed; other speeds scale it
+     */
+    setTiming(name: AnimationName, timing: AnimationTiming) {
+        this.overrides[name] = { ...timing };
+    }
+    
+    /**
+     * GET TIMING
+     * Duration and easing for the current speed (0 when instant)
+     */
+    getTiming(name: AnimationName): AnimationTiming {
+        if (this.isInstant()) return { duration: 0 };
+        
+        const override = this.overrides[name];
+        if (override) {
+            return { duration: override.duration * SPEED_SCALE[this.speed], easing: override.easing };
+        }
+        return this.timings[name];
+    }
+    
+    getDuration(name: AnimationName): number {
+        return this.getTiming(name).duration;
+    }
+    
+    /**
+     * PLAY
+     * Runs the steps on the target one after another, after an optional
+     * delay in seconds (already speed-adjusted, see getDuration)
+     * In instant mode the last value of every property is set directly
+     */
+    play(target: any, steps: AnimationStep[], delay: number = 0): Promise<void> {
+        if (this.isInstant()) {
+            for (const step of steps) {
+                if (step.props) this.applyProps(target, step.props);
+            }
+            return Promise.resolve();
+        }
+        
+        return new Promise((resolve) => {
+            const sequence = tween(target);
+            if (delay > 0) sequence.delay(delay);
+            
+            for (const step of steps) {
+                const timing = this.getTiming(step.name);
+                if (!step.props) {
+                    sequence.delay(timing.duration);
+                } else if (timing.easing) {
+                    sequence.to(timing.duration, step.props, { easing: timing.easing });
+                } else {
+                    sequence.to(timing.duration, step.props);
+                }
+            }
+            
+            sequence.call(() => resolve()).start();
+        });
+    }
+    
+    /**
+     * LOOP
+     * Repeats the steps until stop() is called on the target
+     * Nothing plays in instant mode
+     */
+    loop(target: any, steps: AnimationStep[]) {
+        if (this.isInstant()) return;
+        
+        const cycle = tween();
+        for (const step of steps) {
+            const timing = this.getTiming(step.name);
+            cycle.to(timing.duration, step.props || {}, timing.easing ? { easing: timing.easing } : undefined);
+        }
+        tween(target).repeatForever(cycle).start();
+    }
+    
+    stop(target: any) {
+        Tween.stopAllByTarget(target);
+    }
+    
+    /**
+     * ALL
+     * Waits for every animation; resolves immediately for an empty list
+     */
+    all(animations: Promise<void>[]): Promise<void> {
+        return Promise.all(animations).then(() => undefined);
+    }
+    
+    private applyProps(target: any, props: { [property: string]: any }) {
+        for (const property of Object.keys(props)) {
+            const value = props[property];
+            target[property] = value && typeof value.clone === 'function' ? value.clone() : value;
+        }
+    }
+}
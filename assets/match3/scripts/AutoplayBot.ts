@@ -0,0 +1,210 @@
+import { BoardModel } from './BoardModel';
+import { MatchValidator } from './MatchValidator';
+import { HistoryCommand } from './MoveHistory';
+import { ObjectiveProgress } from './ObjectiveTracker';
+import { RandomSource, SeededRandom, createSeed } from './Random';
+import { SimulationOptions, TurnOutcome, TurnSimulator } from './TurnSimulator';
+
+/**
+ * AUTOPLAY BOT
+ * 
+ * Plays a level on its own: lists every legal swap plus both rotation
+ * directions, resolves each one on a copy of the board with
+ * TurnSimulator (cascades, specials, blockers, refill) and lets a
+ * strategy pick the best candidate.
+ * 
+ * Refills during simulation use the bot's own random sequence, so the
+ * bot guesses new gems like a player instead of peeking at the game's.
+ * Seed it with botSeedFor(gameSeed) so a run replays from the game seed.
+ * 
+ * STRATEGIES:
+ * - greedy:    highest points this turn
+ * - lookahead: greedy plus the best follow-up turn on the resulting
+ *              board, for the most promising candidates only
+ * - objective: points plus progress toward collect / clearBlockers goals
+ * Rotations are a limited budget, so every strategy charges a small
+ * penalty for them and only rotates when that pays off.
+ */
+
+export type BotStrategyName = 'greedy' | 'lookahead' | 'objective';
+
+export interface BotState {
+    board: BoardModel;
+    rotationAngle: number;
+    remainingRotations: number;
+    objectives: ObjectiveProgress[];
+}
+
+export interface BotCandidate {
+    command: HistoryCommand;
+    outcome: TurnOutcome;
+    board: BoardModel;      // board after the simulated turn
+}
+
+export interface BotStrategy {
+    readonly name: BotStrategyName;
+    choose(candidates: BotCandidate[], state: BotState, bot: AutoplayBot): BotCandidate | null;
+}
+
+const ROTATION_PENALTY = 30;
+const OBJECTIVE_GEM_VALUE = 40;
+const OBJECTIVE_BLOCKER_VALUE = 60;
+
+function greedyValue(candidate: BotCandidate): number {
+    const penalty = candidate.command.kind === 'rotate' ? ROTATION_PENALTY : 0;
+    return candidate.outcome.score.total - penalty;
+}
+
+function pickHighest(candidates: BotCandidate[], value: (candidate: BotCandidate) => number): BotCandidate | null {
+    let best: BotCandidate = null;
+    let bestValue = -Infinity;
+    for (const candidate of candidates) {
+        const candidateValue = value(candidate);
+        if (candidateValue > bestValue) {
+            best = candidate;
+            bestValue = candidateValue;
+        }
+    }
+    return best;
+}
+
+export class GreedyStrategy implements BotStrategy {
+    readonly name: BotStrategyName = 'greedy';
+    
+    choose(candidates: BotCandidate[]): BotCandidate | null {
+        return pickHighest(candidates, greedyValue);
+    }
+}
+
+export class LookaheadStrategy implements BotStrategy {
+    readonly name: BotStrategyName = 'lookahead';
+    private breadth: number;
+    private discount: number;
+    
+    constructor(breadth: number = 5, discount: number = 0.5) {
+        this.breadth = breadth;
+        this.discount = discount;
+    }
+    
+    choose(candidates: BotCandidate[], state: BotState, bot: AutoplayBot): BotCandidate | null {
+        const promising = candidates
+            .slice()
+            .sort((a, b) => greedyValue(b) - greedyValue(a))
+            .slice(0, this.breadth);
+        
+        return pickHighest(promising, candidate => {
+            const rotationsLeft = state.remainingRotations - (candidate.command.kind === 'rotate' ? 1 : 0);
+            const followUp = bot.bestImmediateValue(candidate.board, candidate.outcome.rotationAngle, rotationsLeft);
+            return greedyValue(candidate) + this.discount * followUp;
+        });
+    }
+}
+
+export class ObjectiveStrategy implements BotStrategy {
+    readonly name: BotStrategyName = 'objective';
+    
+    choose(candidates: BotCandidate[], state: BotState): BotCandidate | null {
+        return pickHighest(candidates, candidate => greedyValue(candidate) + this.objectiveValue(candidate, state));
+    }
+    
+    private objectiveValue(candidate: BotCandidate, state: BotState): number {
+        let value = 0;
+        
+        for (const progress of state.objectives) {
+            if (progress.completed) continue;
+            const remaining = progress.target - progress.current;
+            
+            if (progress.definition.type === 'collect') {
+                const collected = candidate.outcome.clearedTypes.filter(type => type === progress.definition.gemType).length;
+                value += Math.min(collected, remaining) * OBJECTIVE_GEM_VALUE;
+            } else if (progress.definition.type === 'clearBlockers') {
+                value += Math.min(candidate.outcome.brokenLayers, remaining) * OBJECTIVE_BLOCKER_VALUE;
+            }
+        }
+        
+        return value;
+    }
+}
+
+/**
+ * CREATE BOT STRATEGY
+ * Unknown names fall back to greedy
+ */
+export function createBotStrategy(name: string): BotStrategy {
+    switch (name) {
+        case 'lookahead':
+            return new LookaheadStrategy();
+        case 'objective':
+            return new ObjectiveStrategy();
+        default:
+            return new GreedyStrategy();
+    }
+}
+
+/**
+ * BOT SEED FOR
+ * The bot's seed for a game seed: reproducible, but a different
+ * sequence from the game's own refills
+ */
+export function botSeedFor(gameSeed: number): number {
+    return gameSeed ^ 0x5bd1e995;
+}
+
+export class AutoplayBot {
+    private options: SimulationOptions;
+    private strategy: BotStrategy;
+    private random: RandomSource;
+    
+    constructor(options: SimulationOptions, strategy: BotStrategy = new GreedyStrategy(), seed: number = createSeed()) {
+        this.options = options;
+        this.strategy = strategy;
+        this.random = new SeededRandom(seed);
+    }
+    
+    getStrategy(): BotStrategy {
+        return this.strategy;
+    }
+    
+    /**
+     * CHOOSE COMMAND
+     * Returns the move to play, or null when there is nothing to do
+     */
+    chooseCommand(state: BotState): HistoryCommand | null {
+        const candidates = this.listCandidates(state.board, state.rotationAngle, state.remainingRotations);
+        const choice = this.strategy.choose(candidates, state, this);
+        return choice ? choice.command : null;
+    }
+    
+    /**
+     * LIST CANDIDATES
+     * Every valid swap and, with rotations left, both rotations,
+     * each simulated on its own copy of the board
+     */
+    listCandidates(board: BoardModel, rotationAngle: number, remainingRotations: number): BotCandidate[] {
+        const seed = Math.floor(this.random.next() * 4294967296);
+        const commands: HistoryCommand[] = new MatchValidator(board).findAllMoves()
+            .map(move => ({ kind: 'swap' as const, from: move.from, to: move.to }));
+        
+        if (remainingRotations > 0) {
+            commands.push({ kind: 'rotate', degrees: -90 }, { kind: 'rotate', degrees: 90 });
+        }
+        
+        // Same refill sequence for every candidate keeps the comparison fair
+        return commands.map(command => this.simulate(board, command, rotationAngle, seed));
+    }
+    
+    /**
+     * BEST IMMEDIATE VALUE
+     * Greedy value of the best next turn (0 when no move exists)
+     */
+    bestImmediateValue(board: BoardModel, rotationAngle: number, remainingRotations: number): number {
+        const best = pickHighest(this.listCandidates(board, rotationAngle, remainingRotations), greedyValue);
+        return best ? Math.max(0, greedyValue(best)) : 0;
+    }
+    
+    private simulate(board: BoardModel, command: HistoryCommand, rotationAngle: number, seed: number): BotCandidate {
+        const copy = board.clone();
+        const simulator = new TurnSimulator(copy, new SeededRandom(seed), this.options);
+        return { command, outcome: simulator.apply(command, rotationAngle), board: copy };
+    }
+}
@@ -0,0 +1,123 @@
+import { BoardModel, CellPosition } from './BoardModel';
+import { MatchGroup } from './MatchValidator';
+
+/**
+ * BLOCKER MANAGER
+ * 
+ * Applies a wave of cleared cells to the multi-state cell features
+ * (ice, chain, stone, jelly) and decides which gems actually leave.
+ * 
+ * RULES PER WAVE:
+ * 1. CHAIN: a clear breaks one chain layer; the gem survives
+ * 2. ICE: a clear breaks one ice layer; the gem is removed with it
+ * 3. JELLY: loses one layer whenever the gem on top is removed
+ * 4. STONE: loses one layer for each wave with a matched cell next to
+ *    it (up/down/left/right); a destroyed stone leaves an empty cell
+ * 
+ * Only cell features change here; removing the returned gems from the
+ * board stays with the caller, like the rest of the match pipeline.
+ * 
+ * SCORING:
+ * Only removed gems score. A group held whole by chains removes nothing,
+ * so it still lines up after the wave and clears in the next one;
+ * getScoredMatches leaves it out of the wave that only broke its chains,
+ * so it scores once, in the wave that removes it. A partly chained group
+ * keeps its length and shape bonus but earns gem points only for the
+ * gems it removed.
+ */
+
+export interface BlockerResult {
+    removed: CellPosition[];
+    brokenLayers: number;
+    changed: CellPosition[];
+}
+
+export interface ScoredMatches {
+    groups: MatchGroup[];   // groups that removed at least one gem, cells trimmed to the removed ones
+    clearedCount: number;   // gems the wave removed
+}
+
+const NEIGHBOURS = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+
+export class BlockerManager {
+    private board: BoardModel;
+    
+    constructor(board: BoardModel) {
+        this.board = board;
+    }
+    
+    /**
+     * RESOLVE CLEARS
+     * matchedCells: cells that were part of a match (damage stones)
+     * clearedCells: every cell the wave clears, including special effects
+     */
+    resolveClears(matchedCells: CellPosition[], clearedCells: CellPosition[]): BlockerResult {
+        const result: BlockerResult = { removed: [], brokenLayers: 0, changed: [] };
+        
+        for (const cell of clearedCells) {
+            const { row, col } = cell;
+            if (!this.board.hasGem(row, col)) continue;
+            
+            if (this.board.damageFeature(row, col, 'chain')) {
+                result.brokenLayers++;
+                result.changed.push(cell);
+                continue;
+            }
+            
+            result.removed.push(cell);
+            
+            let broken = 0;
+            if (this.board.damageFeature(row, col, 'ice')) broken++;
+            if (this.board.damageFeature(row, col, 'jelly')) broken++;
+            if (broken > 0) {
+                result.brokenLayers += broken;
+                result.changed.push(cell);
+            }
+        }
+        
+        for (const stone of this.findAdjacentStones(matchedCells)) {
+            this.board.damageFeature(stone.row, stone.col, 'stone');
+            result.brokenLayers++;
+            result.changed.push(stone);
+        }
+        
+        return result;
+    }
+    
+    /**
+     * GET SCORED MATCHES
+     * What a wave should score once resolveClears has run
+     */
+    getScoredMatches(groups: MatchGroup[], result: BlockerResult): ScoredMatches {
+        const removed = new Set(result.removed.map(({ row, col }) => `${row},${col}`));
+        const scored: MatchGroup[] = [];
+        
+        for (const group of groups) {
+            const cells = group.cells.filter(({ row, col }) => removed.has(`${row},${col}`));
+            if (cells.length > 0) scored.push({ ...group, cells });
+        }
+        
+        return { groups: scored, clearedCount: result.removed.length };
+    }
+    
+    private findAdjacentStones(cells: CellPosition[]): CellPosition[] {
+        const stones: CellPosition[] = [];
+        const seen = new Set<string>();
+        
+        for (const { row, col } of cells) {
+            for (const [dRow, dCol] of NEIGHBOURS) {
+                const r = row + dRow;
+                const c = col + dCol;
+                const key = `${r},${c}`;
+                
+                if (seen.has(key) || !this.board.isInside(r, c)) continue;
+                if (this.board.getFeatures(r, c).stone <= 0) continue;
+                
+                seen.add(key);
+                stones.push({ row: r, col: c });
+            }
+        }
+        
+        return stones;
+    }
+}
@@ -0,0 +1,75 @@
+import { BoardModel, CellPosition } from './BoardModel';
+import { screenToGridDirection } from './InputDirection';
+
+/**
+ * BOARD CURSOR
+ * 
+ * Grid position of the keyboard/gamepad cursor.
+ * 
+ * Moves are given in screen directions and mapped through the board
+ * rotation (see InputDirection), so "up" always moves the cursor up on
+ * screen however the board is turned. Holes are skipped: the cursor
+ * jumps to the next enterable cell in that direction, or stays put at
+ * the board edge.
+ */
+
+export type CellFilter = (row: number, col: number) => boolean;
+
+export class BoardCursor {
+    private row: number = 0;
+    private col: number = 0;
+    
+    getPosition(): CellPosition {
+        return { row: this.row, col: this.col };
+    }
+    
+    setPosition(row: number, col: number) {
+        this.row = row;
+        this.col = col;
+    }
+    
+    /**
+     * RESET
+     * Places the cursor on the enterable cell closest to the board centre
+     */
+    reset(board: BoardModel, canEnter: CellFilter = (row, col) => board.isPlayable(row, col)) {
+        const centerRow = (board.rows - 1) / 2;
+        const centerCol = (board.cols - 1) / 2;
+        let bestDistance = Infinity;
+        
+        for (let row = 0; row < board.rows; row++) {
+            for (let col = 0; col < board.cols; col++) {
+                if (!canEnter(row, col)) continue;
+                
+                const distance = Math.abs(row - centerRow) + Math.abs(col - centerCol);
+                if (distance < bestDistance) {
+                    bestDistance = distance;
+                    this.setPosition(row, col);
+                }
+            }
+        }
+    }
+    
+    /**
+     * MOVE
+     * dx, dy: screen direction (y up), rotationAngle: board rotation
+     * Returns false when no enterable cell lies in that direction
+     */
+    move(dx: number, dy: number, rotationAngle: number, board: BoardModel,
+        canEnter: CellFilter = (row, col) => board.isPlayable(row, col)): boolean {
+        const { dRow, dCol } = screenToGridDirection(dx, dy, rotationAngle);
+        
+        let row = this.row + dRow;
+        let col = this.col + dCol;
+        while (board.isInside(row, col)) {
+            if (canEnter(row, col)) {
+                this.setPosition(row, col);
+                return true;
+            }
+            row += dRow;
+            col += dCol;
+        }
+        
+        return false;
+    }
+}
@@ -0,0 +1,298 @@
+import { BoardModel, BoardGem, CellPosition, GemMove } from './BoardModel';
+import { MatchValidator } from './MatchValidator';
+import { RandomSource, mathRandom, randomInt, shuffleInPlace } from './Random';
+import { SpawnPolicy, WeightedSpawnPolicy } from './SpawnPolicy';
+
+/**
+ * BOARD GENERATOR
+ * 
+ * Creates and rearranges gem types on a BoardModel.
+ * Covers the three places new types enter the board:
+ * - generate: initial board with no matches and at least one valid move
+ * - spawnGem: one new gem per call while SpawnerManager refills
+ * - shuffle: rearrange existing types when no moves are left
+ *   (chained gems keep their place)
+ * 
+ * Works purely on the model; Match3Game builds gem nodes afterwards.
+ * All randomness comes from the injected RandomSource, so a seeded
+ * source reproduces the same boards. Refill types come from the
+ * injected SpawnPolicy (uniform by default).
+ */
+
+export type ShuffleStrategy = 'permuted' | 'constructed' | 'regenerated' | 'failed';
+
+/**
+ * SHUFFLE RESULT
+ * moves: where each kept gem went (permuted / constructed)
+ * regenerated: cells that received a new gem type instead
+ */
+export interface ShuffleResult {
+    strategy: ShuffleStrategy;
+    moves: GemMove[];
+    regenerated: CellPosition[];
+}
+
+interface MoveTemplate {
+    pair: CellPosition[];
+    gap: CellPosition;
+    partner: CellPosition;
+}
+
+const MAX_SHUFFLE_TEMPLATES = 30;
+const MAX_SHUFFLE_STEPS = 2000;
+
+export class BoardGenerator {
+    private board: BoardModel;
+    private validator: MatchValidator;
+    private gemTypes: number;
+    private random: RandomSource;
+    private spawnPolicy: SpawnPolicy;
+    
+    constructor(
+        board: BoardModel,
+        validator: MatchValidator,
+        gemTypes: number,
+        random: RandomSource = mathRandom,
+        spawnPolicy: SpawnPolicy = new WeightedSpawnPolicy()
+    ) {
+        this.board = board;
+        this.validator = validator;
+        this.gemTypes = gemTypes;
+        this.random = random;
+        this.spawnPolicy = spawnPolicy;
+    }
+    
+    /**
+     * GENERATE
+     * Fills the board with no initial matches and at least one valid move
+     * Returns the number of attempts used
+     */
+    generate(maxAttempts: number = 100): number {
+        let attempts = 0;
+        
+        while (attempts < maxAttempts) {
+            attempts++;
+            this.board.clear();
+            
+            for (const { row, col } of this.board.getPlayableCells()) {
+                let gemType: number;
+                let safetyCounter = 0;
+                do {
+                    gemType = this.getRandomGemType();
+                    safetyCounter++;
+                    if (safetyCounter > 50) {
+                        gemType = (gemType + 1) % this.gemTypes;
+                        break;
+                    }
+                } while (this.validator.wouldCreateMatch(row, col, gemType));
+                
+                this.board.setGem(row, col, { type: gemType });
+            }
+            
+            if (this.validator.hasValidMoves()) {
+                return attempts;
+            }
+        }
+        
+        return attempts;
+    }
+    
+    /**
+     * SPAWN GEM
+     * Places one new gem with the type chosen by the spawn policy
+     */
+    spawnGem(row: number, col: number) {
+        const type = this.spawnPolicy.pickType(row, col, {
+            board: this.board,
+            validator: this.validator,
+            random: this.random,
+            gemTypes: this.gemTypes
+        });
+        this.board.setGem(row, col, { type });
+    }
+    
+    /**
+     * SHUFFLE
+     * Rearranges the movable gems so the board has no matches and at
+     * least one valid move. Always terminates:
+     * 1. A few random permutations (looks most natural)
+     * 2. Constructive permutation: plant one move, then place the other
+     *    gems cell by cell without completing a match (bounded backtracking)
+     * 3. Regenerate: same construction with fresh gem types
+     * Chained gems keep their place.
+     * 
+     * WHEN IT FAILS ('failed', board left as it was):
+     * - No move template: no three movable cells in a line with a
+     *   movable cell beside an end (tiny or heavily chained boards), so
+     *   no arrangement can hold a valid move
+     * - The backtracking budget runs out on every template tried, for
+     *   both the current and the fresh gem types (very narrow shapes)
+     * Callers must handle 'failed': the board then has no valid swap
+     * (Match3Game lets rotations or the level result take over).
+     */
+    shuffle(maxAttempts: number = 10): ShuffleResult {
+        const cells = this.board.getPlayableCells().filter(({ row, col }) =>
+            this.board.hasGem(row, col) && !this.board.isLocked(row, col));
+        const gems = cells.map(({ row, col }) => this.board.getGem(row, col));
+        const origins = new Map<BoardGem, CellPosition>();
+        gems.forEach((gem, index) => origins.set(gem, cells[index]));
+        
+        for (let attempt = 0; attempt < maxAttempts; attempt++) {
+            shuffleInPlace(this.random, gems);
+            
+            cells.forEach(({ row, col }, index) => {
+                this.board.setGem(row, col, gems[index]);
+            });
+            
+            if (this.isPlayableArrangement()) {
+                return this.describePermutation(cells, origins, 'permuted');
+            }
+        }
+        
+        if (this.construct(cells, this.groupByType(gems))) {
+            return this.describePermutation(cells, origins, 'constructed');
+        }
+        
+        const freshGems: BoardGem[] = [];
+        for (let type = 0; type < this.gemTypes; type++) {
+            cells.forEach(() => freshGems.push({ type }));
+        }
+        if (this.construct(cells, this.groupByType(freshGems))) {
+            return { strategy: 'regenerated', moves: [], regenerated: cells };
+        }
+        
+        origins.forEach(({ row, col }, gem) => this.board.setGem(row, col, gem));
+        return { strategy: 'failed', moves: [], regenerated: [] };
+    }
+    
+    private isPlayableArrangement(): boolean {
+        return this.validator.findAllMatches().length === 0 && this.validator.hasValidMoves();
+    }
+    
+    private describePermutation(
+        cells: CellPosition[],
+        origins: Map<BoardGem, CellPosition>,
+        strategy: ShuffleStrategy
+    ): ShuffleResult {
+        const moves: GemMove[] = [];
+        for (const { row, col } of cells) {
+            const from = origins.get(this.board.getGem(row, col));
+            if (from.row !== row || from.col !== col) {
+                moves.push({ fromRow: from.row, fromCol: from.col, toRow: row, toCol: col });
+            }
+        }
+        return { strategy, moves, regenerated: [] };
+    }
+    
+    private groupByType(gems: BoardGem[]): Map<number, BoardGem[]> {
+        const pools = new Map<number, BoardGem[]>();
+        for (const gem of gems) {
+            if (!pools.has(gem.type)) pools.set(gem.type, []);
+            pools.get(gem.type).push(gem);
+        }
+        return pools;
+    }
+    
+    /**
+     * CONSTRUCT
+     * Tries move templates in random order; each plants three gems of one
+     * type around a swap, then fills the remaining cells from the pools
+     */
+    private construct(cells: CellPosition[], pools: Map<number, BoardGem[]>): boolean {
+        const templates = shuffleInPlace(this.random, this.findMoveTemplates(cells)).slice(0, MAX_SHUFFLE_TEMPLATES);
+        
+        for (const template of templates) {
+            const planted = [template.pair[0], template.pair[1], template.partner];
+            const plantedKeys = new Set(planted.map(({ row, col }) => `${row},${col}`));
+            const rest = cells.filter(({ row, col }) => !plantedKeys.has(`${row},${col}`));
+            
+            const types = shuffleInPlace(this.random, Array.from(pools.keys()).filter(type => pools.get(type).length >= 3));
+            for (const type of types) {
+                cells.forEach(({ row, col }) => this.board.setGem(row, col, null));
+                
+                const pool = pools.get(type);
+                planted.forEach(({ row, col }) => this.board.setGem(row, col, pool.pop()));
+                
+                const budget = { steps: MAX_SHUFFLE_STEPS };
+                if (this.fillWithoutMatches(rest, 0, pools, budget) && this.isPlayableArrangement()) {
+                    return true;
+                }
+                
+                // Give every placed gem back to its pool before the next try
+                planted.forEach(({ row, col }) => pool.push(this.board.getGem(row, col)));
+                rest.forEach(({ row, col }) => {
+                    const gem = this.board.getGem(row, col);
+                    if (gem) pools.get(gem.type).push(gem);
+                });
+            }
+        }
+        
+        return false;
+    }
+    
+    /**
+     * FILL WITHOUT MATCHES
+     * Backtracking over cells; budget caps the total number of steps
+     */
+    private fillWithoutMatches(
+        cells: CellPosition[],
+        index: number,
+        pools: Map<number, BoardGem[]>,
+        budget: { steps: number }
+    ): boolean {
+        if (index === cells.length) return true;
+        if (--budget.steps < 0) return false;
+        
+        const { row, col } = cells[index];
+        const types = shuffleInPlace(this.random, Array.from(pools.keys()).filter(type => pools.get(type).length > 0));
+        
+        for (const type of types) {
+            if (this.validator.checkMatchAtPosition(row, col, type)) continue;
+            
+            this.board.setGem(row, col, pools.get(type).pop());
+            if (this.fillWithoutMatches(cells, index + 1, pools, budget)) return true;
+            
+            pools.get(type).push(this.board.getGem(row, col));
+            this.board.setGem(row, col, null);
+        }
+        
+        return false;
+    }
+    
+    /**
+     * FIND MOVE TEMPLATES
+     * Three movable cells in a line plus a movable cell beside the gap:
+     * gems of one type on the pair and the partner make swapping the
+     * partner into the gap a valid move
+     */
+    private findMoveTemplates(cells: CellPosition[]): MoveTemplate[] {
+        const movable = new Set(cells.map(({ row, col }) => `${row},${col}`));
+        const isMovable = (row: number, col: number) => movable.has(`${row},${col}`);
+        const templates: MoveTemplate[] = [];
+        
+        for (const { row, col } of cells) {
+            for (const [dRow, dCol] of [[0, 1], [1, 0]]) {
+                const line = [0, 1, 2].map(step => ({ row: row + dRow * step, col: col + dCol * step }));
+                if (!line.every(cell => isMovable(cell.row, cell.col))) continue;
+                
+                for (const gapIndex of [0, 2]) {
+                    const gap = line[gapIndex];
+                    const pair = line.filter((_, index) => index !== gapIndex);
+                    
+                    for (const side of [-1, 1]) {
+                        const partner = { row: gap.row + dCol * side, col: gap.col + dRow * side };
+                        if (isMovable(partner.row, partner.col)) {
+                            templates.push({ pair, gap, partner });
+                        }
+                    }
+                }
+            }
+        }
+        
+        return templates;
+    }
+    
+    private getRandomGemType(): number {
+        return randomInt(this.random, this.gemTypes);
+    }
+}
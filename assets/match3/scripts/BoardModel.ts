@@ -0,0 +1,317 @@
+/**
+ * BOARD MODEL
+ * 
+ * Pure TypeScript representation of the Match-3 board state.
+ * Holds the playable mask and the gem occupying each cell, with no
+ * dependency on the Cocos runtime, so board logic can run headless.
+ * 
+ * COORDINATES:
+ * - row: 0 (bottom) to rows-1 (top)
+ * - col: 0 (left) to cols-1 (right)
+ * 
+ * CELL TYPES (pattern values, see CellType):
+ * - 0 blocked hole, 1 plain playable cell
+ * - 2 ice: covers the cell; a clear on the cell breaks a layer (the gem
+ *   goes with it), while gems still swap and fall through it freely
+ * - 3 chain: locks the gem in place; a clear breaks the chain instead
+ *   of the gem
+ * - 4 stone: obstacle holding no gem; adjacent matches damage it and
+ *   it becomes a plain empty cell once destroyed
+ * - 5 jelly: under-layer cleared when the gem on top is cleared
+ * Each feature keeps a hit count, so levels can stack several layers.
+ * 
+ * The Node grid in Match3Game is only a view synced from this model.
+ */
+
+export interface CellPosition {
+    row: number;
+    col: number;
+}
+
+export interface GemMove {
+    fromRow: number;
+    fromCol: number;
+    toRow: number;
+    toCol: number;
+    path?: CellPosition[];  // cells passed through after the start, ending at the target
+}
+
+/**
+ * SPECIAL KIND
+ * Special pieces created by long or crossing matches
+ * - LINE_HORIZONTAL: clears its whole row (4 in a horizontal line)
+ * - LINE_VERTICAL: clears its whole column (4 in a vertical line)
+ * - BOMB: clears the surrounding 3x3 area (L/T intersection)
+ * - COLOR_BOMB: clears every gem of its type (5 in a line)
+ */
+export enum SpecialKind {
+    NONE = 0,
+    LINE_HORIZONTAL = 1,
+    LINE_VERTICAL = 2,
+    BOMB = 3,
+    COLOR_BOMB = 4
+}
+
+export interface BoardGem {
+    type: number;
+    special?: SpecialKind;
+}
+
+export enum CellType {
+    BLOCKED = 0,
+    NORMAL = 1,
+    ICE = 2,
+    CHAIN = 3,
+    STONE = 4,
+    JELLY = 5
+}
+
+/**
+ * CELL FEATURES
+ * Remaining hits per feature layer on a cell (0 = not present)
+ */
+export interface CellFeatures {
+    ice: number;
+    chain: number;
+    stone: number;
+    jelly: number;
+}
+
+export type CellFeatureName = keyof CellFeatures;
+
+const FEATURE_BY_CELL_TYPE: { [type: number]: CellFeatureName } = {
+    [CellType.ICE]: 'ice',
+    [CellType.CHAIN]: 'chain',
+    [CellType.STONE]: 'stone',
+    [CellType.JELLY]: 'jelly'
+};
+
+export class BoardModel {
+    readonly rows: number;
+    readonly cols: number;
+    
+    private playablePattern: number[][];
+    private cells: (BoardGem | null)[][] = [];
+    private features: CellFeatures[][] = [];
+    
+    constructor(playablePattern: number[][]) {
+        this.playablePattern = playablePattern.map(row => row.slice());
+        this.rows = this.playablePattern.length;
+        this.cols = this.rows > 0 ? this.playablePattern[0].length : 0;
+        
+        for (let row = 0; row < this.rows; row++) {
+            this.cells[row] = [];
+            this.features[row] = [];
+            for (let col = 0; col < this.cols; col++) {
+                this.cells[row][col] = null;
+                this.features[row][col] = { ice: 0, chain: 0, stone: 0, jelly: 0 };
+                
+                const feature = FEATURE_BY_CELL_TYPE[this.playablePattern[row][col]];
+                if (feature) {
+                    this.features[row][col][feature] = 1;
+                }
+            }
+        }
+    }
+    
+    /**
+     * PATTERN
+     * Copy of the cell type pattern the board was built from (see CellType)
+     */
+    getPattern(): number[][] {
+        return this.playablePattern.map(row => row.slice());
+    }
+    
+    isInside(row: number, col: number): boolean {
+        return row >= 0 && row < this.rows && col >= 0 && col < this.cols;
+    }
+    
+    /**
+     * IS HOLE
+     * True for cells outside the board shape (pattern value 0)
+     */
+    isHole(row: number, col: number): boolean {
+        return !this.isInside(row, col) || this.playablePattern[row][col] === CellType.BLOCKED;
+    }
+    
+    /**
+     * IS PLAYABLE
+     * True for cells that can hold a gem right now
+     * (inside the board shape and not occupied by stone)
+     */
+    isPlayable(row: number, col: number): boolean {
+        return !this.isHole(row, col) && this.features[row][col].stone === 0;
+    }
+    
+    isBlocked(row: number, col: number): boolean {
+        return !this.isPlayable(row, col);
+    }
+    
+    /**
+     * IS LOCKED
+     * Chained: the gem in this cell cannot be swapped or fall
+     */
+    isLocked(row: number, col: number): boolean {
+        if (!this.isInside(row, col)) return false;
+        return this.features[row][col].chain > 0;
+    }
+    
+    /**
+     * IS FIXED
+     * Holds a gem that gravity must leave in place
+     */
+    isFixed(row: number, col: number): boolean {
+        return this.isLocked(row, col) && this.hasGem(row, col);
+    }
+    
+    getFeatures(row: number, col: number): CellFeatures {
+        return { ...this.features[row][col] };
+    }
+    
+    setFeature(row: number, col: number, feature: CellFeatureName, hits: number) {
+        if (this.isHole(row, col)) return;
+        this.features[row][col][feature] = Math.max(0, hits);
+        if (feature === 'stone' && hits > 0) {
+            this.cells[row][col] = null;
+        }
+    }
+    
+    /**
+     * DAMAGE FEATURE
+     * Removes one layer; returns true if a layer was present
+     */
+    damageFeature(row: number, col: number, feature: CellFeatureName): boolean {
+        if (!this.isInside(row, col) || this.features[row][col][feature] <= 0) return false;
+        this.features[row][col][feature]--;
+        return true;
+    }
+    
+    /**
+     * BLOCKER LAYERS
+     * Total remaining feature hits on the board (clearBlockers objective)
+     */
+    countBlockerLayers(): number {
+        let total = 0;
+        for (let row = 0; row < this.rows; row++) {
+            for (let col = 0; col < this.cols; col++) {
+                const { ice, chain, stone, jelly } = this.features[row][col];
+                total += ice + chain + stone + jelly;
+            }
+        }
+        return total;
+    }
+    
+    getGem(row: number, col: number): BoardGem | null {
+        return this.isInside(row, col) ? this.cells[row][col] : null;
+    }
+    
+    hasGem(row: number, col: number): boolean {
+        return this.getGem(row, col) !== null;
+    }
+    
+    /**
+     * GET TYPE
+     * Returns the gem type at (row, col), or -1 when the cell is empty
+     */
+    getType(row: number, col: number): number {
+        const gem = this.getGem(row, col);
+        return gem ? gem.type : -1;
+    }
+    
+    /**
+     * GET SPECIAL
+     * Returns the special kind at (row, col), NONE for plain or empty cells
+     */
+    getSpecial(row: number, col: number): SpecialKind {
+        const gem = this.getGem(row, col);
+        return gem && gem.special ? gem.special : SpecialKind.NONE;
+    }
+    
+    setGem(row: number, col: number, gem: BoardGem | null) {
+        this.cells[row][col] = gem;
+    }
+    
+    removeGem(row: number, col: number): BoardGem | null {
+        const gem = this.cells[row][col];
+        this.cells[row][col] = null;
+        return gem;
+    }
+    
+    swap(row1: number, col1: number, row2: number, col2: number) {
+        const temp = this.cells[row1][col1];
+        this.cells[row1][col1] = this.cells[row2][col2];
+        this.cells[row2][col2] = temp;
+    }
+    
+    /**
+     * CLEAR
+     * Removes every gem, keeping the playable mask
+     */
+    clear() {
+        for (let row = 0; row < this.rows; row++) {
+            for (let col = 0; col < this.cols; col++) {
+                this.cells[row][col] = null;
+            }
+        }
+    }
+    
+    /**
+     * PLAYABLE CELLS
+     * All playable positions in row-major order (bottom row first)
+     */
+    getPlayableCells(): CellPosition[] {
+        const cells: CellPosition[] = [];
+        for (let row = 0; row < this.rows; row++) {
+            for (let col = 0; col < this.cols; col++) {
+                if (this.isPlayable(row, col)) {
+                    cells.push({ row, col });
+                }
+            }
+        }
+        return cells;
+    }
+    
+    /**
+     * EMPTY CELLS
+     * Playable positions that currently hold no gem
+     */
+    getEmptyCells(): CellPosition[] {
+        return this.getPlayableCells().filter(({ row, col }) => !this.cells[row][col]);
+    }
+    
+    /**
+     * COPY FROM
+     * Overwrites every cell with the gems of another board of the same size
+     * Keeps this instance, so systems holding a reference stay in sync
+     */
+    copyFrom(other: BoardModel) {
+        for (let row = 0; row < this.rows; row++) {
+            for (let col = 0; col < this.cols; col++) {
+                const gem = other.getGem(row, col);
+                this.cells[row][col] = gem ? { ...gem } : null;
+                this.features[row][col] = other.getFeatures(row, col);
+            }
+        }
+    }
+    
+    clone(): BoardModel {
+        const copy = new BoardModel(this.playablePattern);
+        copy.copyFrom(this);
+        return copy;
+    }
+    
+    /**
+     * TYPE GRID
+     * Snapshot of gem types per cell (-1 for empty or blocked cells)
+     */
+    toTypeGrid(): number[][] {
+        const types: number[][] = [];
+        for (let row = 0; row < this.rows; row++) {
+            types[row] = [];
+            for (let col = 0; col < this.cols; col++) {
+                types[row][col] = this.getType(row, col);
+            }
+        }
+        return types;
+    }
+}
@@ -0,0 +1,106 @@
+import { CellPosition } from './BoardModel';
+import { MatchGroup } from './MatchValidator';
+import { LevelResult, ObjectiveProgress } from './ObjectiveTracker';
+import { ShuffleStrategy } from './BoardGenerator';
+import { TurnScoreBreakdown, WaveScore } from './ScoreModel';
+
+/**
+ * GAME EVENT BUS
+ * 
+ * Typed publish/subscribe channel for everything notable that happens in
+ * a game, so UI, audio, analytics and tests can listen without patching
+ * Match3Game. Payload types are checked per event name.
+ * 
+ * This is the only channel Match3Game publishes on: results screens,
+ * HUD and combo popups subscribe here rather than to node events.
+ * 
+ * USAGE:
+ * game.events.on('matchResolved', ({ groups, cascadeDepth }) => { ... });
+ * 
+ * Listeners run synchronously in subscription order; a throwing listener
+ * is logged and does not stop the others or the game.
+ */
+
+export type SwapRejectReason = 'noMatch' | 'locked';
+
+export interface GameEventMap {
+    boardGenerated: { attempts: number; hasValidMoves: boolean };
+    swapAttempted: { from: CellPosition; to: CellPosition };
+    swapRejected: { from: CellPosition; to: CellPosition; reason: SwapRejectReason };
+    matchResolved: { groups: MatchGroup[]; cleared: CellPosition[]; cascadeDepth: number; wave: WaveScore };
+    turnScored: TurnScoreBreakdown;
+    objectivesChanged: ObjectiveProgress[];
+    rotated: { degrees: number; rotationAngle: number; remainingRotations: number };
+    gravitySettled: { rotationAngle: number; moved: number; spawned: number };
+    shuffled: { strategy: ShuffleStrategy; moved: number; regenerated: number };
+    scoreChanged: { score: number; delta: number };
+    gameOver: LevelResult;      // status tells complete from failed
+}
+
+export type GameEventName = keyof GameEventMap;
+export type GameEventListener<K extends GameEventName> = (payload: GameEventMap[K]) => void;
+
+interface Subscription {
+    listener: (payload: any) => void;
+    target: any;
+    once: boolean;
+}
+
+export class GameEventBus {
+    private subscriptions = new Map<GameEventName, Subscription[]>();
+    
+    on<K extends GameEventName>(event: K, listener: GameEventListener<K>, target?: any) {
+        this.add(event, { listener, target, once: false });
+    }
+    
+    once<K extends GameEventName>(event: K, listener: GameEventListener<K>, target?: any) {
+        this.add(event, { listener, target, once: true });
+    }
+    
+    /**
+     * OFF
+     * Removes a listener (and target, when given)
+     */
+    off<K extends GameEventName>(event: K, listener: GameEventListener<K>, target?: any) {
+        const list = this.subscriptions.get(event);
+        if (!list) return;
+        
+        this.subscriptions.set(event, list.filter(subscription =>
+            subscription.listener !== listener || (target !== undefined && subscription.target !== target)
+        ));
+    }
+    
+    /**
+     * TARGET OFF
+     * Removes every listener registered with the target (component teardown)
+     */
+    targetOff(target: any) {
+        this.subscriptions.forEach((list, event) => {
+            this.subscriptions.set(event, list.filter(subscription => subscription.target !== target));
+        });
+    }
+    
+    emit<K extends GameEventName>(event: K, payload: GameEventMap[K]) {
+        const list = this.subscriptions.get(event);
+        if (!list || list.length === 0) return;
+        
+        this.subscriptions.set(event, list.filter(subscription => !subscription.once));
+        
+        for (const subscription of list) {
+            try {
+                subscription.listener.call(subscription.target, payload);
+            } catch (error) {
+                console.error(`Game event listener for "${event}" failed:`, error);
+            }
+        }
+    }
+    
+    clear() {
+        this.subscriptions.clear();
+    }
+    
+    private add(event: GameEventName, subscription: Subscription) {
+        if (!this.subscriptions.has(event)) this.subscriptions.set(event, []);
+        this.subscriptions.get(event).push(subscription);
+    }
+}
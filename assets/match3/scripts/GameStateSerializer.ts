@@ -0,0 +1,146 @@
+import { BoardModel, CellFeatures, SpecialKind } from './BoardModel';
+import { GameSnapshot } from './MoveHistory';
+
+/**
+ * GAME STATE SERIALIZER
+ * 
+ * Converts an in-progress game to JSON and back, so a reload can
+ * resume instead of generating a fresh board.
+ * 
+ * SAVED FORMAT (version 1):
+ * {
+ *   "version": 1,
+ *   "levelId": "level_001",
+ *   "seed": 12345,
+ *   "pattern": [[0, 1, ...], ...],      // cell type pattern, must match the level
+ *   "types": [[-1, 3, ...], ...],       // gem type per cell, -1 = empty/blocked
+ *   "specials": [[0, 0, ...], ...],     // SpecialKind per cell
+ *   "features": [[[0, 0, 0, 1], ...]],  // remaining ice, chain, stone, jelly hits
+ *   "rotationAngle": 90,
+ *   "score": 1200,
+ *   "remainingRotations": 7,
+ *   "remainingMoves": 18,
+ *   "randomState": 987654,
+ *   "objectives": [1200, 14],           // current progress per objective
+ *   "savedAt": 1700000000000
+ * }
+ */
+
+export const SAVE_FORMAT_VERSION = 1;
+
+const FEATURE_ORDER: (keyof CellFeatures)[] = ['ice', 'chain', 'stone', 'jelly'];
+
+export interface SavedGame {
+    levelId: string;
+    seed: number;
+    savedAt: number;
+    snapshot: GameSnapshot;
+}
+
+/**
+ * SERIALIZE GAME
+ * Returns the JSON string for a settled game snapshot
+ */
+export function serializeGame(levelId: string, seed: number, snapshot: GameSnapshot): string {
+    const { board } = snapshot;
+    const specials: number[][] = [];
+    const features: number[][][] = [];
+    for (let row = 0; row < board.rows; row++) {
+        specials[row] = [];
+        features[row] = [];
+        for (let col = 0; col < board.cols; col++) {
+            specials[row][col] = board.getSpecial(row, col);
+            const cellFeatures = board.getFeatures(row, col);
+            features[row][col] = FEATURE_ORDER.map(feature => cellFeatures[feature]);
+        }
+    }
+    
+    return JSON.stringify({
+        version: SAVE_FORMAT_VERSION,
+        levelId,
+        seed,
+        pattern: board.getPattern(),
+        types: board.toTypeGrid(),
+        specials,
+        features,
+        rotationAngle: snapshot.rotationAngle,
+        score: snapshot.score,
+        remainingRotations: snapshot.remainingRotations,
+        remainingMoves: snapshot.remainingMoves,
+        randomState: snapshot.randomState,
+        objectives: snapshot.objectives.map(item => item.current),
+        savedAt: Date.now()
+    });
+}
+
+/**
+ * DESERIALIZE GAME
+ * Parses a saved game for the given level and pattern
+ * Returns null when the data is corrupt, from another format version,
+ * or was saved for a different level or board shape
+ */
+export function deserializeGame(json: string, levelId: string, pattern: number[][]): SavedGame | null {
+    let data: any;
+    try {
+        data = JSON.parse(json);
+    } catch (error) {
+        return null;
+    }
+    
+    if (!data || data.version !== SAVE_FORMAT_VERSION || data.levelId !== levelId) return null;
+    if (!isSameGrid(data.pattern, pattern)) return null;
+    if (!isGridOfSize(data.types, pattern) || !isGridOfSize(data.specials, pattern)) return null;
+    
+    const board = new BoardModel(pattern);
+    if (isGridOfSize(data.features, pattern)) {
+        for (let row = 0; row < board.rows; row++) {
+            for (let col = 0; col < board.cols; col++) {
+                const hits = data.features[row][col];
+                if (!Array.isArray(hits)) continue;
+                FEATURE_ORDER.forEach((feature, index) => board.setFeature(row, col, feature, hits[index] || 0));
+            }
+        }
+    }
+    
+    for (let row = 0; row < board.rows; row++) {
+        for (let col = 0; col < board.cols; col++) {
+            const type = data.types[row][col];
+            if (type < 0 || !board.isPlayable(row, col)) continue;
+            
+            const special = data.specials[row][col] as SpecialKind;
+            board.setGem(row, col, special !== SpecialKind.NONE ? { type, special } : { type });
+        }
+    }
+    
+    const objectives = Array.isArray(data.objectives) ? data.objectives : [];
+    
+    return {
+        levelId,
+        seed: data.seed >>> 0,
+        savedAt: data.savedAt || 0,
+        snapshot: {
+            board,
+            score: data.score || 0,
+            rotationAngle: data.rotationAngle || 0,
+            remainingRotations: data.remainingRotations || 0,
+            remainingMoves: data.remainingMoves || 0,
+            randomState: data.randomState >>> 0,
+            objectives: objectives.map((current: number) => ({
+                definition: null,
+                current,
+                target: 0,
+                completed: false
+            }))
+        }
+    };
+}
+
+function isSameGrid(a: any, b: number[][]): boolean {
+    return isGridOfSize(a, b) && b.every((row, r) => row.every((value, c) => a[r][c] === value));
+}
+
+function isGridOfSize(grid: any, reference: number[][]): boolean {
+    return Array.isArray(grid)
+        && grid.length === reference.length
+        && grid.every((row: any, r: number) => Array.isArray(row) && row.length === reference[r].length);
+}
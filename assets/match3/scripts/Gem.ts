@@ -1,4 +1,5 @@
 import { _decorator, Component } from 'cc';
+import { SpecialKind } from './BoardModel';
 const { ccclass, property } = _decorator;
 
 @ccclass('Gem')
@@ -24,4 +25,10 @@ export class Gem extends Component {
      * Starts from 0 (left) to cols-1 (right)
      */
     public col: number = 0;
+    
+    /**
+     * SPECIAL
+     * Special piece kind (line, bomb, color bomb) or NONE for a plain gem
+     */
+    public special: SpecialKind = SpecialKind.NONE;
 }
\ No newline at end of file
@@ -0,0 +1,142 @@
+import { Node, Prefab, Sprite, SpriteFrame, Color, Tween, Vec3, instantiate } from 'cc';
+import { Gem } from './Gem';
+import { SpecialKind } from './BoardModel';
+
+/**
+ * GEM POOL
+ * 
+ * Recycles gem nodes instead of instantiating and destroying one per
+ * spawn and removal, which churns nodes and GC during long cascades.
+ * 
+ * acquire() hands out a detached node with a Gem component; release()
+ * stops its tweens, removes touch listeners and special markers, resets
+ * scale, rotation, position and sprite, and keeps it for the next spawn.
+ * The caller sets everything gem specific after acquire().
+ */
+
+export interface GemPoolStats {
+    created: number;        // nodes instantiated since start
+    reused: number;         // acquires served from the pool
+    released: number;       // nodes handed back
+    available: number;      // idle nodes in the pool
+    active: number;         // nodes currently handed out
+    peakActive: number;
+}
+
+const TOUCH_EVENTS = [
+    Node.EventType.TOUCH_START,
+    Node.EventType.TOUCH_MOVE,
+    Node.EventType.TOUCH_END,
+    Node.EventType.TOUCH_CANCEL
+];
+
+export class GemPool {
+    private prefab: Prefab;
+    private available: Node[] = [];
+    private defaultSpriteFrame: SpriteFrame = null;
+    private stats: GemPoolStats = { created: 0, reused: 0, released: 0, available: 0, active: 0, peakActive: 0 };
+    
+    constructor(prefab: Prefab) {
+        this.prefab = prefab;
+    }
+    
+    /**
+     * WARM UP
+     * Pre-instantiates nodes until the pool holds at least count
+     */
+    warmUp(count: number) {
+        while (this.available.length < count) {
+            this.available.push(this.createNode());
+        }
+        this.stats.available = this.available.length;
+    }
+    
+    acquire(): Node {
+        let gem: Node;
+        if (this.available.length > 0) {
+            gem = this.available.pop();
+            this.stats.reused++;
+        } else {
+            gem = this.createNode();
+        }
+        
+        this.stats.active++;
+        this.stats.peakActive = Math.max(this.stats.peakActive, this.stats.active);
+        this.stats.available = this.available.length;
+        return gem;
+    }
+    
+    /**
+     * RELEASE
+     * Resets the node and keeps it for reuse
+     */
+    release(gem: Node) {
+        if (!gem || !gem.isValid) return;
+        
+        this.reset(gem);
+        this.available.push(gem);
+        
+        this.stats.released++;
+        this.stats.active = Math.max(0, this.stats.active - 1);
+        this.stats.available = this.available.length;
+    }
+    
+    getStats(): GemPoolStats {
+        return { ...this.stats };
+    }
+    
+    /**
+     * CLEAR
+     * Destroys every idle node (scene teardown)
+     */
+    clear() {
+        for (const gem of this.available) {
+            if (gem.isValid) gem.destroy();
+        }
+        this.available = [];
+        this.stats.available = 0;
+    }
+    
+    private createNode(): Node {
+        const gem = instantiate(this.prefab);
+        gem.addComponent(Gem);
+        
+        const sprite = gem.getComponent(Sprite);
+        if (sprite && !this.defaultSpriteFrame) {
+            this.defaultSpriteFrame = sprite.spriteFrame;
+        }
+        
+        this.stats.created++;
+        return gem;
+    }
+    
+    private reset(gem: Node) {
+        Tween.stopAllByTarget(gem);
+        for (const event of TOUCH_EVENTS) {
+            gem.off(event);
+        }
+        
+        const marker = gem.getChildByName('SpecialMarker');
+        if (marker) {
+            marker.removeFromParent();
+            marker.destroy();
+        }
+        
+        gem.removeFromParent();
+        gem.setPosition(0, 0, 0);
+        gem.setScale(1, 1, 1);
+        gem.eulerAngles = new Vec3(0, 0, 0);
+        
+        const sprite = gem.getComponent(Sprite);
+        if (sprite) {
+            sprite.spriteFrame = this.defaultSpriteFrame;
+            sprite.color = Color.WHITE;
+        }
+        
+        const gemComponent = gem.getComponent(Gem);
+        gemComponent.type = 0;
+        gemComponent.row = 0;
+        gemComponent.col = 0;
+        gemComponent.special = SpecialKind.NONE;
+    }
+}
@@ -1,5 +1,4 @@
-import { Node } from 'cc';
-import { Gem } from './Gem';
+import { BoardModel, CellPosition, GemMove } from './BoardModel';
 
 /**
  * GRAVITY MANAGER
@@ -7,279 +6,291 @@ import { Gem } from './Gem';
  * Handles all gravity-related operations for the Match-3 game.
  * Manages how gems fall in different directions based on board rotation.
  * 
- * ALGORITHM:
- * 1. Collect all existing gems in a row/column (only from playable cells)
- * 2. Clear the row/column temporarily
- * 3. Place gems compacted toward the gravity direction (only in playable cells)
- * 4. Animate gems to new positions
+ * ALGORITHM (same for all four directions, see GravityFrame):
+ * 1. Straight fall: in every lane (column for up/down, row for left/right)
+ *    gems drop toward the gravity side until they hit a blocked cell
+ * 2. Diagonal slide: an empty cell shadowed by a blocked cell (no open
+ *    path against gravity to a feeder, the spawner cell new gems come
+ *    in at) takes a gem from the cell diagonally above it in a
+ *    neighbouring lane; lanes with an open path fill straight down
+ *    from their feeder
+ * 3. Repeat until nothing moves; every step lowers a gem, so it ends
+ * 4. Report every gem that moved, with the cells it passed through,
+ *    so the view can animate the full path
  * 
- * This "collect and place" approach ensures gems move in exactly ONE pass,
- * avoiding multiple iterations and visual glitches.
+ * Blocked cells are holes, stones and chained gems. Feeders default to
+ * the lane entry cells (getEntryCells); callers with level spawners pass
+ * the active ones (SpawnerManager.getSpawners).
+ * 
+ * Operates on BoardModel only; Match3Game applies the returned moves
+ * to its Node grid and animates them.
+ */
+
+/**
+ * GRAVITY FRAME
+ * Maps gravity-local coordinates to board cells
+ * lane: index across the gravity direction
+ * depth: 0 at the gravity side, growing against gravity
+ */
+interface GravityFrame {
+    lanes: number;
+    depth: number;
+    toCell(lane: number, depth: number): CellPosition;
+}
+
+/**
+ * GRAVITY DIRECTION
+ * Side the gems fall toward, named from the unrotated board
  */
+export type GravityDirection = 'down' | 'left' | 'up' | 'right';
+
+export const GRAVITY_DIRECTIONS: GravityDirection[] = ['down', 'left', 'up', 'right'];
+
+/**
+ * GRAVITY DIRECTION FOR ROTATION
+ * 0 -> down, 90 -> left, 180 -> up, 270 -> right
+ */
+export function gravityDirectionForRotation(rotationAngle: number): GravityDirection {
+    const index = Math.round(((rotationAngle % 360) + 360) % 360 / 90) % 4;
+    return GRAVITY_DIRECTIONS[index];
+}
+
+interface Trail {
+    from: CellPosition;
+    path: CellPosition[];
+}
 
 export class GravityManager {
-    private grid: Node[][];
-    private playablePattern: number[][];
+    private board: BoardModel;
     private rows: number;
     private cols: number;
-    private animateCallback: (gem: Node, row: number, col: number) => Promise<void>;
     
-    constructor(
-        grid: Node[][], 
-        playablePattern: number[][], 
-        rows: number, 
-        cols: number,
-        animateCallback: (gem: Node, row: number, col: number) => Promise<void>
-    ) {
-        this.grid = grid;
-        this.playablePattern = playablePattern;
-        this.rows = rows;
-        this.cols = cols;
-        this.animateCallback = animateCallback;
+    constructor(board: BoardModel) {
+        this.board = board;
+        this.rows = board.rows;
+        this.cols = board.cols;
     }
     
     private isPlayableCell(row: number, col: number): boolean {
-        return this.playablePattern[row][col] === 1;
+        return this.board.isPlayable(row, col) && !this.board.isFixed(row, col);
     }
     
     private isBlockedCell(row: number, col: number): boolean {
-        return this.playablePattern[row][col] === 0;
+        return !this.isPlayableCell(row, col);
+    }
+    
+    /**
+     * APPLY FOR ROTATION
+     * Picks the gravity direction matching the board rotation angle
+     */
+    applyForRotation(rotationAngle: number, feeders?: CellPosition[]): GemMove[] {
+        switch (rotationAngle) {
+            case 0:
+                return this.applyDown(feeders);
+            case 90:
+                return this.applyLeft(feeders);
+            case 180:
+                return this.applyUp(feeders);
+            case 270:
+                return this.applyRight(feeders);
+        }
+        return [];
     }
     
     /**
      * APPLY DOWN GRAVITY (0°)
      * Gems fall toward row 0 (bottom of screen)
      */
-    async applyDown(): Promise<boolean> {
-        let anyMoved = false;
-        const promises: Promise<void>[] = [];
-        
-        for (let col = 0; col < this.cols; col++) {
-            // Step 1: Collect all gems from PLAYABLE cells only
-            const gems: { gem: Node, originalRow: number }[] = [];
-            for (let row = 0; row < this.rows; row++) {
-                if (this.grid[row][col] && this.isPlayableCell(row, col)) {
-                    gems.push({ gem: this.grid[row][col], originalRow: row });
-                }
-            }
-            
-            if (gems.length === 0) continue;
-            
-            // Step 2: Clear all PLAYABLE cells in this column
-            for (let row = 0; row < this.rows; row++) {
-                if (this.isPlayableCell(row, col)) {
-                    this.grid[row][col] = null;
-                }
-            }
-            
-            // Step 3: Find first playable cell from bottom
-            let writeRow = -1;
-            for (let row = 0; row < this.rows; row++) {
-                if (this.isPlayableCell(row, col)) {
-                    writeRow = row;
-                    break;
-                }
-            }
-            
-            if (writeRow === -1) continue;
-            
-            // Step 4: Place gems bottom-up in PLAYABLE cells only
-            for (const { gem, originalRow } of gems) {
-                if (writeRow === -1 || writeRow >= this.rows) break;
-                
-                this.grid[writeRow][col] = gem;
-                const gemComp = gem.getComponent(Gem);
-                gemComp.row = writeRow;
-                gemComp.col = col;
-                
-                if (writeRow !== originalRow) {
-                    anyMoved = true;
-                    promises.push(this.animateCallback(gem, writeRow, col));
-                }
-                
-                // Find next playable cell
-                writeRow++;
-                while (writeRow < this.rows && this.isBlockedCell(writeRow, col)) {
-                    writeRow++;
-                }
-            }
-        }
-        
-        if (promises.length > 0) await Promise.all(promises);
-        return anyMoved;
+    applyDown(feeders?: CellPosition[]): GemMove[] {
+        return this.settle(this.getFrame(0), feeders);
     }
     
     /**
      * APPLY LEFT GRAVITY (90°)
      * Gems fall toward col 0 (left side)
      */
-    async applyLeft(): Promise<boolean> {
-        let anyMoved = false;
-        const promises: Promise<void>[] = [];
-        
-        for (let row = 0; row < this.rows; row++) {
-            const gems: { gem: Node, originalCol: number }[] = [];
-            for (let col = 0; col < this.cols; col++) {
-                if (this.grid[row][col] && this.isPlayableCell(row, col)) {
-                    gems.push({ gem: this.grid[row][col], originalCol: col });
-                }
-            }
-            
-            if (gems.length === 0) continue;
-            
-            for (let col = 0; col < this.cols; col++) {
-                if (this.isPlayableCell(row, col)) {
-                    this.grid[row][col] = null;
-                }
-            }
-            
-            let writeCol = -1;
-            for (let col = 0; col < this.cols; col++) {
-                if (this.isPlayableCell(row, col)) {
-                    writeCol = col;
+    applyLeft(feeders?: CellPosition[]): GemMove[] {
+        return this.settle(this.getFrame(90), feeders);
+    }
+    
+    /**
+     * APPLY UP GRAVITY (180°)
+     * Gems fall toward the top row
+     */
+    applyUp(feeders?: CellPosition[]): GemMove[] {
+        return this.settle(this.getFrame(180), feeders);
+    }
+    
+    /**
+     * APPLY RIGHT GRAVITY (270°)
+     * Gems fall toward the last column
+     */
+    applyRight(feeders?: CellPosition[]): GemMove[] {
+        return this.settle(this.getFrame(270), feeders);
+    }
+    
+    /**
+     * ENTRY CELLS
+     * The first playable cell of every lane seen from the side new gems
+     * come from; the default spawners when a level defines none
+     */
+    getEntryCells(rotationAngle: number): CellPosition[] {
+        const frame = this.getFrame(rotationAngle);
+        return frame ? this.findEntryCells(frame) : [];
+    }
+    
+    private findEntryCells(frame: GravityFrame): CellPosition[] {
+        const cells: CellPosition[] = [];
+        for (let lane = 0; lane < frame.lanes; lane++) {
+            for (let depth = frame.depth - 1; depth >= 0; depth--) {
+                const cell = frame.toCell(lane, depth);
+                if (this.board.isPlayable(cell.row, cell.col)) {
+                    cells.push(cell);
                     break;
                 }
             }
-            
-            if (writeCol === -1) continue;
-            
-            for (const { gem, originalCol } of gems) {
-                if (writeCol === -1 || writeCol >= this.cols) break;
-                
-                this.grid[row][writeCol] = gem;
-                const gemComp = gem.getComponent(Gem);
-                gemComp.row = row;
-                gemComp.col = writeCol;
-                
-                if (writeCol !== originalCol) {
-                    anyMoved = true;
-                    promises.push(this.animateCallback(gem, row, writeCol));
-                }
-                
-                writeCol++;
-                while (writeCol < this.cols && this.isBlockedCell(row, writeCol)) {
-                    writeCol++;
-                }
-            }
         }
+        return cells;
+    }
+    
+    private getFrame(rotationAngle: number): GravityFrame | null {
+        const rows = this.rows;
+        const cols = this.cols;
         
-        if (promises.length > 0) await Promise.all(promises);
-        return anyMoved;
+        switch (rotationAngle) {
+            case 0:
+                return {
+                    lanes: cols, depth: rows,
+                    toCell: (lane, depth) => ({ row: depth, col: lane })
+                };
+            case 90:
+                return {
+                    lanes: rows, depth: cols,
+                    toCell: (lane, depth) => ({ row: lane, col: depth })
+                };
+            case 180:
+                return {
+                    lanes: cols, depth: rows,
+                    toCell: (lane, depth) => ({ row: rows - 1 - depth, col: lane })
+                };
+            case 270:
+                return {
+                    lanes: rows, depth: cols,
+                    toCell: (lane, depth) => ({ row: lane, col: cols - 1 - depth })
+                };
+        }
+        return null;
     }
     
     /**
-     * APPLY UP GRAVITY (180°)
-     * Gems fall toward row (rows-1) (top of screen)
-     * 
-     * Algorithm: Compact all gems toward the TOP of each column
+     * SETTLE
+     * Alternates straight falls and single diagonal slides until stable
      */
-    async applyUp(): Promise<boolean> {
-        let anyMoved = false;
-        const promises: Promise<void>[] = [];
+    private settle(frame: GravityFrame, feeders: CellPosition[] = this.findEntryCells(frame)): GemMove[] {
+        const trails = new Map<string, Trail>();
+        const feederKeys = new Set(feeders.map(({ row, col }) => `${row},${col}`));
         
-        for (let col = 0; col < this.cols; col++) {
-            // Collect all playable cell indices in this column (top to bottom)
-            const playableCells: number[] = [];
-            for (let row = 0; row < this.rows; row++) {
-                if (this.isPlayableCell(row, col)) {
-                    playableCells.push(row);
-                }
-            }
-            
-            if (playableCells.length === 0) continue;
-            
-            // Collect all gems from these playable cells
-            const gems: { gem: Node, originalRow: number }[] = [];
-            for (const row of playableCells) {
-                if (this.grid[row][col]) {
-                    gems.push({ gem: this.grid[row][col], originalRow: row });
-                    this.grid[row][col] = null; // Clear temporarily
-                }
-            }
+        this.fallStraight(frame, trails);
+        while (this.slideDiagonal(frame, trails, feederKeys)) {
+            this.fallStraight(frame, trails);
+        }
+        
+        const moves: GemMove[] = [];
+        trails.forEach((trail, key) => {
+            const [toRow, toCol] = key.split(',').map(Number);
+            if (trail.from.row === toRow && trail.from.col === toCol) return;
             
-            if (gems.length === 0) continue;
+            moves.push({
+                fromRow: trail.from.row,
+                fromCol: trail.from.col,
+                toRow,
+                toCol,
+                path: trail.path
+            });
+        });
+        
+        return moves;
+    }
+    
+    /**
+     * FALL STRAIGHT
+     * Compacts each lane segment between blocked cells toward depth 0
+     */
+    private fallStraight(frame: GravityFrame, trails: Map<string, Trail>) {
+        for (let lane = 0; lane < frame.lanes; lane++) {
+            let writeDepth = -1;
             
-            // Place gems at the TOP of playable cells
-            // Start from highest playable cell and work down
-            const startIndex = playableCells.length - 1; // Highest cell
-            for (let i = 0; i < gems.length; i++) {
-                const targetCellIndex = startIndex - i;
-                if (targetCellIndex < 0) break; // No more space
+            for (let depth = 0; depth < frame.depth; depth++) {
+                const cell = frame.toCell(lane, depth);
                 
-                const targetRow = playableCells[targetCellIndex];
-                const { gem, originalRow } = gems[i];
+                if (this.isBlockedCell(cell.row, cell.col)) {
+                    writeDepth = -1;
+                    continue;
+                }
                 
-                this.grid[targetRow][col] = gem;
-                const gemComp = gem.getComponent(Gem);
-                gemComp.row = targetRow;
-                gemComp.col = col;
+                if (!this.board.hasGem(cell.row, cell.col)) {
+                    if (writeDepth === -1) writeDepth = depth;
+                    continue;
+                }
                 
-                if (targetRow !== originalRow) {
-                    anyMoved = true;
-                    promises.push(this.animateCallback(gem, targetRow, col));
+                if (writeDepth !== -1) {
+                    this.moveGem(cell, frame.toCell(lane, writeDepth), trails);
+                    writeDepth++;
                 }
             }
         }
-        
-        if (promises.length > 0) await Promise.all(promises);
-        return anyMoved;
     }
     
     /**
-     * APPLY RIGHT GRAVITY (270°)
-     * Gems fall toward col (cols-1) (right side)
-     * 
-     * Algorithm: Compact all gems toward the RIGHT of each row
+     * SLIDE DIAGONAL
+     * Moves one gem into the lowest shadowed empty cell that has a gem
+     * diagonally above it; returns false when no slide is possible
+     * feeders: cells new gems enter at ("row,col" keys)
      */
-    async applyRight(): Promise<boolean> {
-        let anyMoved = false;
-        const promises: Promise<void>[] = [];
-        
-        for (let row = 0; row < this.rows; row++) {
-            // Collect all playable cell indices in this row (left to right)
-            const playableCells: number[] = [];
-            for (let col = 0; col < this.cols; col++) {
-                if (this.isPlayableCell(row, col)) {
-                    playableCells.push(col);
-                }
-            }
-            
-            if (playableCells.length === 0) continue;
-            
-            // Collect all gems from these playable cells
-            const gems: { gem: Node, originalCol: number }[] = [];
-            for (const col of playableCells) {
-                if (this.grid[row][col]) {
-                    gems.push({ gem: this.grid[row][col], originalCol: col });
-                    this.grid[row][col] = null;
-                }
-            }
-            
-            if (gems.length === 0) continue;
-            
-            // Place gems at the RIGHT of playable cells
-            // Start from rightmost playable cell and work left
-            const startIndex = playableCells.length - 1; // Rightmost cell
-            for (let i = 0; i < gems.length; i++) {
-                const targetCellIndex = startIndex - i;
-                if (targetCellIndex < 0) break;
-                
-                const targetCol = playableCells[targetCellIndex];
-                const { gem, originalCol } = gems[i];
+    private slideDiagonal(frame: GravityFrame, trails: Map<string, Trail>, feeders: Set<string>): boolean {
+        for (let depth = 0; depth < frame.depth - 1; depth++) {
+            for (let lane = 0; lane < frame.lanes; lane++) {
+                const target = frame.toCell(lane, depth);
+                if (this.isBlockedCell(target.row, target.col) || this.board.hasGem(target.row, target.col)) continue;
+                if (!this.isShadowedLocal(frame, lane, depth, feeders)) continue;
                 
-                this.grid[row][targetCol] = gem;
-                const gemComp = gem.getComponent(Gem);
-                gemComp.row = row;
-                gemComp.col = targetCol;
-                
-                if (targetCol !== originalCol) {
-                    anyMoved = true;
-                    promises.push(this.animateCallback(gem, row, targetCol));
+                for (const sourceLane of [lane - 1, lane + 1]) {
+                    if (sourceLane < 0 || sourceLane >= frame.lanes) continue;
+                    
+                    const source = frame.toCell(sourceLane, depth + 1);
+                    if (this.isBlockedCell(source.row, source.col) || !this.board.hasGem(source.row, source.col)) continue;
+                    
+                    this.moveGem(source, target, trails);
+                    return true;
                 }
             }
         }
+        return false;
+    }
+    
+    /**
+     * IS SHADOWED LOCAL
+     * True when no feeder lies on the open stretch of the lane from this
+     * cell against gravity, so only a diagonal slide can fill it
+     */
+    private isShadowedLocal(frame: GravityFrame, lane: number, depth: number, feeders: Set<string>): boolean {
+        for (let above = depth; above < frame.depth; above++) {
+            const cell = frame.toCell(lane, above);
+            if (this.isBlockedCell(cell.row, cell.col)) return true;
+            if (feeders.has(`${cell.row},${cell.col}`)) return false;
+        }
+        return true;
+    }
+    
+    private moveGem(from: CellPosition, to: CellPosition, trails: Map<string, Trail>) {
+        const fromKey = `${from.row},${from.col}`;
+        const trail = trails.get(fromKey) || { from, path: [] };
+        trails.delete(fromKey);
+        
+        trail.path.push(to);
+        trails.set(`${to.row},${to.col}`, trail);
         
-        if (promises.length > 0) await Promise.all(promises);
-        return anyMoved;
+        this.board.setGem(to.row, to.col, this.board.getGem(from.row, from.col));
+        this.board.setGem(from.row, from.col, null);
     }
-}
\ No newline at end of file
+}
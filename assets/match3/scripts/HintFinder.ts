@@ -0,0 +1,66 @@
+import { BoardModel } from './BoardModel';
+import { GravityManager } from './GravityManager';
+import { MatchValidator, MoveEvaluator, SwapMove } from './MatchValidator';
+
+/**
+ * HINT FINDER
+ * 
+ * Picks the move to reveal when the player is idle.
+ * 
+ * ALGORITHM:
+ * 1. Rank every valid swap with the evaluator and return the best one
+ * 2. If no swap exists, simulate both rotations on a copy of the board:
+ *    apply gravity for the new angle and check for matches
+ * 3. Return the first rotation that creates a match, or null
+ * 
+ * Rotation simulation ignores refill, so a rotation hint is only given
+ * when the existing gems alone fall into a match.
+ */
+
+export type Hint =
+    | { kind: 'swap'; move: SwapMove }
+    | { kind: 'rotate'; degrees: number };
+
+export class HintFinder {
+    private board: BoardModel;
+    private validator: MatchValidator;
+    private evaluate: MoveEvaluator;
+    
+    constructor(board: BoardModel, validator: MatchValidator, evaluate?: MoveEvaluator) {
+        this.board = board;
+        this.validator = validator;
+        this.evaluate = evaluate;
+    }
+    
+    /**
+     * FIND HINT
+     * rotationAngle: current board angle (0, 90, 180, 270)
+     * canRotate: false when the rotation budget is spent
+     */
+    findHint(rotationAngle: number, canRotate: boolean): Hint | null {
+        const move = this.validator.findBestMove(this.evaluate);
+        if (move) return { kind: 'swap', move };
+        
+        if (!canRotate) return null;
+        
+        for (const degrees of [-90, 90]) {
+            if (this.rotationCreatesMatch(rotationAngle, degrees)) {
+                return { kind: 'rotate', degrees };
+            }
+        }
+        
+        return null;
+    }
+    
+    /**
+     * ROTATION CREATES MATCH
+     * Simulates gravity after rotating by degrees on a copy of the board
+     */
+    rotationCreatesMatch(rotationAngle: number, degrees: number): boolean {
+        const copy = this.board.clone();
+        const angle = (rotationAngle + degrees + 360) % 360;
+        
+        new GravityManager(copy).applyForRotation(angle);
+        return new MatchValidator(copy).findAllMatches().length > 0;
+    }
+}
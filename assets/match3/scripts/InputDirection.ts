@@ -0,0 +1,34 @@
+/**
+ * INPUT DIRECTION
+ * 
+ * Maps directions on screen to directions on the grid.
+ * 
+ * The grid container rotates with the board, so after a 90° rotation
+ * "up" on screen is no longer "row + 1" on the grid. Screen vectors are
+ * rotated back by the board angle into the container's local space,
+ * where +x is col + 1 and +y is row + 1.
+ */
+
+export interface GridDirection {
+    dRow: number;
+    dCol: number;
+}
+
+/**
+ * SCREEN TO GRID DIRECTION
+ * dx, dy: screen-space vector (y up)
+ * rotationAngle: board rotation in degrees, counter-clockwise
+ * Returns the single grid step along the dominant axis
+ */
+export function screenToGridDirection(dx: number, dy: number, rotationAngle: number): GridDirection {
+    const radians = -rotationAngle * Math.PI / 180;
+    const cos = Math.cos(radians);
+    const sin = Math.sin(radians);
+    const localX = dx * cos - dy * sin;
+    const localY = dx * sin + dy * cos;
+    
+    if (Math.abs(localX) >= Math.abs(localY)) {
+        return { dRow: 0, dCol: localX > 0 ? 1 : -1 };
+    }
+    return { dRow: localY > 0 ? 1 : -1, dCol: 0 };
+}
@@ -0,0 +1,103 @@
+import { input, Input, EventKeyboard, EventGamepad, KeyCode } from 'cc';
+
+/**
+ * KEYBOARD / GAMEPAD INPUT
+ * 
+ * Translates key presses and gamepad buttons into board actions, so
+ * Match3Game handles one action stream whatever the device.
+ * 
+ * KEYBOARD:
+ * - Arrows / WASD: move the cursor
+ * - Space / Enter: select or swap
+ * - Escape / Backspace: cancel the selection
+ * - Q / E: rotate left / right
+ * 
+ * GAMEPAD:
+ * - D-pad / left stick: move the cursor
+ * - South (A / Cross): select or swap
+ * - East (B / Circle): cancel the selection
+ * - L1 / R1: rotate left / right
+ * 
+ * Gamepad actions fire once per press (edge triggered); the stick acts
+ * like the d-pad once pushed past STICK_DEADZONE.
+ */
+
+export type InputAction = 'up' | 'down' | 'left' | 'right' | 'select' | 'cancel' | 'rotateLeft' | 'rotateRight';
+
+export const KEY_BINDINGS: { [keyCode: number]: InputAction } = {
+    [KeyCode.ARROW_UP]: 'up',
+    [KeyCode.KEY_W]: 'up',
+    [KeyCode.ARROW_DOWN]: 'down',
+    [KeyCode.KEY_S]: 'down',
+    [KeyCode.ARROW_LEFT]: 'left',
+    [KeyCode.KEY_A]: 'left',
+    [KeyCode.ARROW_RIGHT]: 'right',
+    [KeyCode.KEY_D]: 'right',
+    [KeyCode.SPACE]: 'select',
+    [KeyCode.ENTER]: 'select',
+    [KeyCode.ESCAPE]: 'cancel',
+    [KeyCode.BACKSPACE]: 'cancel',
+    [KeyCode.KEY_Q]: 'rotateLeft',
+    [KeyCode.KEY_E]: 'rotateRight'
+};
+
+const STICK_DEADZONE = 0.5;
+
+export class KeyboardGamepadInput {
+    private onAction: (action: InputAction) => void;
+    private pressed = new Set<InputAction>();
+    private enabled: boolean = false;
+    
+    constructor(onAction: (action: InputAction) => void) {
+        this.onAction = onAction;
+    }
+    
+    enable() {
+        if (this.enabled) return;
+        this.enabled = true;
+        input.on(Input.EventType.KEY_DOWN, this.onKeyDown, this);
+        input.on(Input.EventType.GAMEPAD_INPUT, this.onGamepadInput, this);
+    }
+    
+    disable() {
+        if (!this.enabled) return;
+        this.enabled = false;
+        input.off(Input.EventType.KEY_DOWN, this.onKeyDown, this);
+        input.off(Input.EventType.GAMEPAD_INPUT, this.onGamepadInput, this);
+        this.pressed.clear();
+    }
+    
+    private onKeyDown(event: EventKeyboard) {
+        const action = KEY_BINDINGS[event.keyCode];
+        if (action) this.onAction(action);
+    }
+    
+    /**
+     * ON GAMEPAD INPUT
+     * Fires an action for every control that went from released to held
+     */
+    private onGamepadInput(event: EventGamepad) {
+        const gamepad = event.gamepad;
+        const stick = gamepad.leftStick.getValue();
+        
+        const held: { [action in InputAction]: boolean } = {
+            up: gamepad.dpad.up.getValue() > 0 || stick.y > STICK_DEADZONE,
+            down: gamepad.dpad.down.getValue() > 0 || stick.y < -STICK_DEADZONE,
+            left: gamepad.dpad.left.getValue() > 0 || stick.x < -STICK_DEADZONE,
+            right: gamepad.dpad.right.getValue() > 0 || stick.x > STICK_DEADZONE,
+            select: gamepad.buttonSouth.getValue() > 0,
+            cancel: gamepad.buttonEast.getValue() > 0,
+            rotateLeft: gamepad.buttonL1.getValue() > 0,
+            rotateRight: gamepad.buttonR1.getValue() > 0
+        };
+        
+        for (const action of Object.keys(held) as InputAction[]) {
+            if (held[action] && !this.pressed.has(action)) {
+                this.pressed.add(action);
+                this.onAction(action);
+            } else if (!held[action]) {
+                this.pressed.delete(action);
+            }
+        }
+    }
+}
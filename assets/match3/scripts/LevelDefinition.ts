@@ -0,0 +1,428 @@
+/**
+ * LEVEL DEFINITION
+ * 
+ * Versioned JSON level format and its parser.
+ * Lets designers ship levels as JSON assets instead of editing TypeScript.
+ * 
+ * FORMAT (version 1):
+ * {
+ *   "version": 1,
+ *   "id": "level_001",
+ *   "name": "Diamond",
+ *   "pattern": ["0,1,2,0", "1,5,4,1", ...],   // rows, first line = row 0 (bottom)
+ *   "palette": [0, 1, 2, 3, 4],               // sprite index per gem type
+ *   "maxRotations": 10,
+ *   "moveLimit": 30,                          // 0 = unlimited
+ *   "undoLimit": 3,                           // -1 = unlimited, 0 = no undo
+ *   "seed": 12345,                            // 0 = random
+ *   "enableAutoShuffle": true,
+ *   "objectives": [{ "type": "score", "target": 5000 }],
+ *   "cellFeatures": [{ "row": 4, "col": 4, "feature": "ice", "hits": 1 }],
+ *   "spawners": [{ "row": 7, "col": 3, "gravity": "down" }],
+ *   "spawnPolicy": { "type": "weighted", "weights": [3, 1, 1, 1, 1] },
+ *   "mode": "timeAttack",                     // "classic" (default) or "timeAttack"
+ *   "timeAttack": { "duration": 90, "rotationCost": 3 }
+ * }
+ * 
+ * Pattern values are cell types (see CellType in BoardModel):
+ * 0 blocked, 1 playable, 2 ice, 3 chain, 4 stone, 5 jelly.
+ * "cellFeatures" add features with more than one hit on top of the pattern.
+ * "spawners" are the only cells new gems enter through while gravity points
+ * in their "gravity" direction; a direction without spawners uses the
+ * first playable cell of every column/row.
+ * "spawnPolicy" picks refill gem types (see SpawnPolicy): uniform, weighted,
+ * avoidMatch, assist (optional "threshold") or hard; "weights" has one
+ * entry per palette type.
+ * "mode": "timeAttack" plays against a countdown instead of the move and
+ * rotation budgets (moveLimit, maxRotations and undoLimit are ignored, no
+ * undo). "timeAttack" tunes it, every field optional (see DEFAULT_TIME_ATTACK):
+ * duration, pauseWhileResolving, rotationCost, cascadeBonus, bigMatchBonus,
+ * bigMatchLength (seconds / gem counts) and timeBonusPoints per second left.
+ * 
+ * "pattern" also accepts a single newline-separated string or a number[][].
+ * Every field except "version" and "pattern" is optional.
+ */
+
+import { CellFeatureName, CellType } from './BoardModel';
+import { GravityDirection, GRAVITY_DIRECTIONS } from './GravityManager';
+
+export const LEVEL_FORMAT_VERSION = 1;
+
+export type ObjectiveType = 'score' | 'collect' | 'clearBlockers';
+
+export interface ObjectiveDefinition {
+    type: ObjectiveType;
+    target: number;
+    gemType?: number;
+}
+
+export type CellFeatureType = CellFeatureName;
+
+export interface CellFeatureDefinition {
+    row: number;
+    col: number;
+    feature: CellFeatureType;
+    hits: number;
+}
+
+export interface SpawnerDefinition {
+    row: number;
+    col: number;
+    gravity: GravityDirection;
+}
+
+export type SpawnPolicyType = 'uniform' | 'weighted' | 'avoidMatch' | 'assist' | 'hard';
+
+export interface SpawnPolicyDefinition {
+    type: SpawnPolicyType;
+    weights?: number[];
+    threshold?: number;
+}
+
+export type GameMode = 'classic' | 'timeAttack';
+
+export interface TimeAttackDefinition {
+    duration: number;               // starting seconds on the clock
+    pauseWhileResolving: boolean;   // clock stops while a turn animates
+    rotationCost: number;           // seconds charged per rotation
+    cascadeBonus: number;           // seconds per cascade wave after the first
+    bigMatchBonus: number;          // seconds per group of bigMatchLength or more
+    bigMatchLength: number;
+    timeBonusPoints: number;        // points per second left when objectives finish early
+}
+
+export const DEFAULT_TIME_ATTACK: TimeAttackDefinition = {
+    duration: 90,
+    pauseWhileResolving: true,
+    rotationCost: 3,
+    cascadeBonus: 1,
+    bigMatchBonus: 2,
+    bigMatchLength: 4,
+    timeBonusPoints: 50
+};
+
+export interface LevelDefinition {
+    version: number;
+    id: string;
+    name: string;
+    pattern: number[][];
+    palette: number[];
+    maxRotations: number;
+    moveLimit: number;
+    undoLimit: number;
+    seed: number;
+    enableAutoShuffle: boolean;
+    objectives: ObjectiveDefinition[];
+    cellFeatures: CellFeatureDefinition[];
+    spawners: SpawnerDefinition[];
+    spawnPolicy: SpawnPolicyDefinition;
+    mode: GameMode;
+    timeAttack: TimeAttackDefinition;
+}
+
+export class LevelFormatError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'LevelFormatError';
+    }
+}
+
+const OBJECTIVE_TYPES: ObjectiveType[] = ['score', 'collect', 'clearBlockers'];
+const CELL_FEATURE_TYPES: CellFeatureType[] = ['ice', 'chain', 'stone', 'jelly'];
+const SPAWN_POLICY_TYPES: SpawnPolicyType[] = ['uniform', 'weighted', 'avoidMatch', 'assist', 'hard'];
+const GAME_MODES: GameMode[] = ['classic', 'timeAttack'];
+
+/**
+ * PARSE LEVEL DEFINITION
+ * Validates raw JSON data and fills in defaults
+ * Throws LevelFormatError describing the first problem found
+ */
+export function parseLevelDefinition(data: any): LevelDefinition {
+    if (!data || typeof data !== 'object') {
+        throw new LevelFormatError('Level data must be an object');
+    }
+    
+    const version = data.version;
+    if (typeof version !== 'number' || version < 1) {
+        throw new LevelFormatError('Level "version" must be a positive number');
+    }
+    if (version > LEVEL_FORMAT_VERSION) {
+        throw new LevelFormatError(`Level version ${version} is newer than supported version ${LEVEL_FORMAT_VERSION}`);
+    }
+    
+    const pattern = parsePatternField(data.pattern);
+    const rows = pattern.length;
+    const cols = pattern[0].length;
+    
+    const palette = data.palette !== undefined
+        ? readIntArray(data.palette, 'palette')
+        : [0, 1, 2, 3, 4];
+    if (palette.length < 3) {
+        throw new LevelFormatError('Level "palette" needs at least 3 gem types');
+    }
+    
+    const objectives = readArray(data.objectives, 'objectives').map((objective, index) =>
+        parseObjective(objective, index, palette.length)
+    );
+    
+    const cellFeatures = readArray(data.cellFeatures, 'cellFeatures').map((feature, index) =>
+        parseCellFeature(feature, index, rows, cols)
+    );
+    
+    const spawners = readArray(data.spawners, 'spawners').map((spawner, index) =>
+        parseSpawner(spawner, index, pattern)
+    );
+    
+    const spawnPolicy = data.spawnPolicy !== undefined
+        ? parseSpawnPolicy(data.spawnPolicy, palette.length)
+        : { type: 'uniform' as SpawnPolicyType };
+    
+    if (data.mode !== undefined && GAME_MODES.indexOf(data.mode) < 0) {
+        throw new LevelFormatError(`Level "mode" must be one of ${GAME_MODES.join(', ')}`);
+    }
+    
+    return {
+        version,
+        id: typeof data.id === 'string' ? data.id : '',
+        name: typeof data.name === 'string' ? data.name : '',
+        pattern,
+        palette,
+        maxRotations: readInt(data.maxRotations, 'maxRotations', 10),
+        moveLimit: readInt(data.moveLimit, 'moveLimit', 0),
+        undoLimit: readInt(data.undoLimit, 'undoLimit', -1),
+        seed: readInt(data.seed, 'seed', 0),
+        enableAutoShuffle: data.enableAutoShuffle !== undefined ? !!data.enableAutoShuffle : true,
+        objectives,
+        cellFeatures,
+        spawners,
+        spawnPolicy,
+        mode: data.mode !== undefined ? data.mode : 'classic',
+        timeAttack: parseTimeAttack(data.timeAttack)
+    };
+}
+
+/**
+ * PARSE PATTERN STRING
+ * Comma/space separated rows, one line per row (first line = row 0)
+ * Values 0-5 are cell types; anything else is a plain playable cell
+ * Short rows are padded as playable
+ * An empty string gives the default 8x8 fully playable board
+ */
+export function parsePatternString(patternString: string): number[][] {
+    const pattern: number[][] = [];
+    
+    if (!patternString || patternString.trim() === '') {
+        for (let i = 0; i < 8; i++) {
+            pattern[i] = [];
+            for (let j = 0; j < 8; j++) {
+                pattern[i][j] = 1;
+            }
+        }
+        return pattern;
+    }
+    
+    const rows = patternString.trim().split('\n');
+    
+    for (let i = 0; i < rows.length; i++) {
+        const cols = rows[i].trim().split(/[,\s]+/).map(val => {
+            const parsed = parseInt(val.trim());
+            if (isNaN(parsed)) return CellType.BLOCKED;
+            return (parsed >= CellType.BLOCKED && parsed <= CellType.JELLY) ? parsed : CellType.NORMAL;
+        });
+        pattern[i] = cols;
+    }
+    
+    const maxCols = Math.max(...pattern.map(row => row.length));
+    for (let i = 0; i < pattern.length; i++) {
+        while (pattern[i].length < maxCols) {
+            pattern[i].push(1);
+        }
+    }
+    
+    return pattern;
+}
+
+/**
+ * PATTERN TO STRING
+ * Inverse of parsePatternString
+ */
+export function patternToString(pattern: number[][]): string {
+    return pattern.map(row => row.join(',')).join('\n');
+}
+
+/**
+ * SERIALIZE LEVEL DEFINITION
+ * Inverse of parseLevelDefinition: JSON data in the documented format,
+ * pattern written as one string per row
+ */
+export function serializeLevelDefinition(level: LevelDefinition): any {
+    return {
+        version: level.version,
+        id: level.id,
+        name: level.name,
+        pattern: level.pattern.map(row => row.join(',')),
+        palette: level.palette.slice(),
+        maxRotations: level.maxRotations,
+        moveLimit: level.moveLimit,
+        undoLimit: level.undoLimit,
+        seed: level.seed,
+        enableAutoShuffle: level.enableAutoShuffle,
+        objectives: level.objectives.map(objective => ({ ...objective })),
+        cellFeatures: level.cellFeatures.map(feature => ({ ...feature })),
+        spawners: level.spawners.map(spawner => ({ ...spawner })),
+        spawnPolicy: { ...level.spawnPolicy },
+        mode: level.mode,
+        timeAttack: { ...level.timeAttack }
+    };
+}
+
+function parsePatternField(value: any): number[][] {
+    let pattern: number[][];
+    
+    if (typeof value === 'string') {
+        pattern = parsePatternString(value);
+    } else if (Array.isArray(value) && value.every(row => typeof row === 'string')) {
+        pattern = parsePatternString(value.join('\n'));
+    } else if (Array.isArray(value) && value.every(row => Array.isArray(row))) {
+        pattern = parsePatternString(value.map((row: any[]) => row.join(',')).join('\n'));
+    } else {
+        throw new LevelFormatError('Level "pattern" must be a string, string[] or number[][]');
+    }
+    
+    if (pattern.length === 0 || pattern[0].length === 0) {
+        throw new LevelFormatError('Level "pattern" is empty');
+    }
+    
+    return pattern;
+}
+
+function parseObjective(value: any, index: number, paletteSize: number): ObjectiveDefinition {
+    if (!value || OBJECTIVE_TYPES.indexOf(value.type) < 0) {
+        throw new LevelFormatError(`objectives[${index}].type must be one of ${OBJECTIVE_TYPES.join(', ')}`);
+    }
+    
+    const objective: ObjectiveDefinition = {
+        type: value.type,
+        target: readInt(value.target, `objectives[${index}].target`, 0)
+    };
+    
+    if (objective.type === 'collect') {
+        objective.gemType = readInt(value.gemType, `objectives[${index}].gemType`, -1);
+        if (objective.gemType < 0) {
+            throw new LevelFormatError(`objectives[${index}].gemType is required for "collect"`);
+        }
+        if (objective.gemType >= paletteSize) {
+            throw new LevelFormatError(`objectives[${index}].gemType must be below the ${paletteSize} palette types`);
+        }
+    }
+    
+    return objective;
+}
+
+function parseCellFeature(value: any, index: number, rows: number, cols: number): CellFeatureDefinition {
+    if (!value || CELL_FEATURE_TYPES.indexOf(value.feature) < 0) {
+        throw new LevelFormatError(`cellFeatures[${index}].feature must be one of ${CELL_FEATURE_TYPES.join(', ')}`);
+    }
+    
+    const row = readInt(value.row, `cellFeatures[${index}].row`, -1);
+    const col = readInt(value.col, `cellFeatures[${index}].col`, -1);
+    if (row < 0 || row >= rows || col < 0 || col >= cols) {
+        throw new LevelFormatError(`cellFeatures[${index}] is outside the ${rows}x${cols} pattern`);
+    }
+    
+    return {
+        row,
+        col,
+        feature: value.feature,
+        hits: readInt(value.hits, `cellFeatures[${index}].hits`, 1)
+    };
+}
+
+function parseSpawner(value: any, index: number, pattern: number[][]): SpawnerDefinition {
+    if (!value || GRAVITY_DIRECTIONS.indexOf(value.gravity) < 0) {
+        throw new LevelFormatError(`spawners[${index}].gravity must be one of ${GRAVITY_DIRECTIONS.join(', ')}`);
+    }
+    
+    const rows = pattern.length;
+    const cols = pattern[0].length;
+    const row = readInt(value.row, `spawners[${index}].row`, -1);
+    const col = readInt(value.col, `spawners[${index}].col`, -1);
+    if (row < 0 || row >= rows || col < 0 || col >= cols) {
+        throw new LevelFormatError(`spawners[${index}] is outside the ${rows}x${cols} pattern`);
+    }
+    if (pattern[row][col] === CellType.BLOCKED) {
+        throw new LevelFormatError(`spawners[${index}] is on a blocked cell`);
+    }
+    
+    return { row, col, gravity: value.gravity };
+}
+
+function parseSpawnPolicy(value: any, paletteSize: number): SpawnPolicyDefinition {
+    if (!value || SPAWN_POLICY_TYPES.indexOf(value.type) < 0) {
+        throw new LevelFormatError(`spawnPolicy.type must be one of ${SPAWN_POLICY_TYPES.join(', ')}`);
+    }
+    
+    const policy: SpawnPolicyDefinition = { type: value.type };
+    
+    if (value.weights !== undefined) {
+        policy.weights = readIntArray(value.weights, 'spawnPolicy.weights');
+        if (policy.weights.length !== paletteSize || policy.weights.some(weight => weight < 0)) {
+            throw new LevelFormatError(`spawnPolicy.weights needs ${paletteSize} non-negative entries, one per palette type`);
+        }
+    } else if (policy.type === 'weighted') {
+        throw new LevelFormatError('spawnPolicy.weights is required for "weighted"');
+    }
+    
+    if (value.threshold !== undefined) {
+        policy.threshold = readInt(value.threshold, 'spawnPolicy.threshold', 1);
+    }
+    
+    return policy;
+}
+
+function parseTimeAttack(value: any): TimeAttackDefinition {
+    if (value === undefined || value === null) return { ...DEFAULT_TIME_ATTACK };
+    if (typeof value !== 'object') {
+        throw new LevelFormatError('Level "timeAttack" must be an object');
+    }
+    
+    const defaults = DEFAULT_TIME_ATTACK;
+    const timeAttack: TimeAttackDefinition = {
+        duration: readInt(value.duration, 'timeAttack.duration', defaults.duration),
+        pauseWhileResolving: value.pauseWhileResolving !== undefined ? !!value.pauseWhileResolving : defaults.pauseWhileResolving,
+        rotationCost: readInt(value.rotationCost, 'timeAttack.rotationCost', defaults.rotationCost),
+        cascadeBonus: readInt(value.cascadeBonus, 'timeAttack.cascadeBonus', defaults.cascadeBonus),
+        bigMatchBonus: readInt(value.bigMatchBonus, 'timeAttack.bigMatchBonus', defaults.bigMatchBonus),
+        bigMatchLength: readInt(value.bigMatchLength, 'timeAttack.bigMatchLength', defaults.bigMatchLength),
+        timeBonusPoints: readInt(value.timeBonusPoints, 'timeAttack.timeBonusPoints', defaults.timeBonusPoints)
+    };
+    
+    if (timeAttack.duration <= 0) {
+        throw new LevelFormatError('timeAttack.duration must be positive');
+    }
+    
+    return timeAttack;
+}
+
+function readInt(value: any, field: string, fallback: number): number {
+    if (value === undefined || value === null) return fallback;
+    if (typeof value !== 'number' || !isFinite(value) || Math.floor(value) !== value) {
+        throw new LevelFormatError(`"${field}" must be an integer`);
+    }
+    return value;
+}
+
+function readIntArray(value: any, field: string): number[] {
+    if (!Array.isArray(value)) {
+        throw new LevelFormatError(`"${field}" must be an array`);
+    }
+    return value.map((item, index) => readInt(item, `${field}[${index}]`, 0));
+}
+
+function readArray(value: any, field: string): any[] {
+    if (value === undefined || value === null) return [];
+    if (!Array.isArray(value)) {
+        throw new LevelFormatError(`"${field}" must be an array`);
+    }
+    return value;
+}
@@ -1,7 +1,29 @@
-import { _decorator, Component, Node, Prefab, instantiate, Vec3, tween, Label, Color, Sprite, UITransform, SpriteFrame, Graphics } from 'cc';
+import { _decorator, Component, Node, Prefab, instantiate, Vec3, Label, Color, Sprite, UITransform, SpriteFrame, Graphics, JsonAsset, EventTouch, Vec2, sys } from 'cc';
 import { Gem } from './Gem';
+import { BoardModel, CellPosition, CellFeatures, GemMove, SpecialKind } from './BoardModel';
+import { BoardGenerator, ShuffleStrategy } from './BoardGenerator';
 import { GravityManager } from './GravityManager';
 import { MatchValidator } from './MatchValidator';
+import { SpecialGemManager } from './SpecialGemManager';
+import { BlockerManager } from './BlockerManager';
+import { SpawnerManager } from './SpawnerManager';
+import { createSpawnPolicy } from './SpawnPolicy';
+import { AutoplayBot, botSeedFor, createBotStrategy } from './AutoplayBot';
+import { SeededRandom, createSeed } from './Random';
+import { LevelDefinition, LEVEL_FORMAT_VERSION, DEFAULT_TIME_ATTACK, parseLevelDefinition, parsePatternString, patternToString } from './LevelDefinition';
+import { ObjectiveTracker } from './ObjectiveTracker';
+import { ScoreModel, WaveScore } from './ScoreModel';
+import { HintFinder } from './HintFinder';
+import { screenToGridDirection } from './InputDirection';
+import { MoveHistory, GameSnapshot, HistoryCommand } from './MoveHistory';
+import { SavedGame, serializeGame, deserializeGame } from './GameStateSerializer';
+import { GameEventBus, SwapRejectReason } from './GameEventBus';
+import { AnimationSequencer, AnimationSpeed, isAnimationSpeed } from './AnimationSequencer';
+import { GemPool, GemPoolStats } from './GemPool';
+import { PatternEditor, PatternSymmetry } from './PatternEditor';
+import { BoardCursor } from './BoardCursor';
+import { KeyboardGamepadInput, InputAction } from './KeyboardGamepadInput';
+import { TimeAttackClock } from './TimeAttackClock';
 const { ccclass, property } = _decorator;
 
 /**
@@ -9,8 +31,39 @@ const { ccclass, property } = _decorator;
  * 
  * Coordinates all game systems: input, grid management, scoring, rotation
  * Uses utility classes for specific responsibilities:
+ * - BoardModel: Headless board state (gem types, playable mask)
  * - GravityManager: Handles gem falling logic
  * - MatchValidator: Detects matches and validates moves
+ * - BoardGenerator: Initial generation, spawned gem types and shuffle
+ * - SpecialGemManager: Special gem creation and activation
+ * - BlockerManager: Ice, chain, stone and jelly cell layers
+ * - SpawnerManager: Refill through spawner cells
+ * - AutoplayBot: Plays the level by itself in autoplay mode
+ * - LevelDefinition: JSON level format (pattern, palette, budgets, seed)
+ * - ObjectiveTracker: Level goals and win/lose detection
+ * - ScoreModel: Cascade multipliers, shape bonuses, per-turn breakdown
+ * - HintFinder: Best available move for the idle hint
+ * - MoveHistory: Undo/redo of swaps and rotations
+ * - GameStateSerializer: Save/resume through local storage
+ * - GameEventBus: Typed events for UI, audio and analytics (see events)
+ * - AnimationSequencer: Animation timings, easing and turbo/instant speeds
+ * - GemPool: Recycles gem nodes across spawns, removals and shuffles
+ * - PatternEditor: In-scene board pattern editing (see setEditorMode)
+ * - BoardCursor / KeyboardGamepadInput: Cursor play with keys or a gamepad
+ * - TimeAttackClock: Countdown, bonus seconds and end scoring of time attack
+ * 
+ * GAME EVENTS (typed, on game.events, see GameEventMap):
+ * boardGenerated, swapAttempted, swapRejected, matchResolved, rotated,
+ * gravitySettled, shuffled, scoreChanged, turnScored, objectivesChanged,
+ * gameOver
+ * UI code subscribes there; nothing is emitted on this node.
+ * - matchResolved carries the WaveScore of each cascade wave
+ * - turnScored: TurnScoreBreakdown once a swap or rotation settles
+ * - objectivesChanged: ObjectiveProgress[] after each cascade wave
+ * - gameOver: LevelResult once the final turn settles
+ * 
+ * The Node grid is a view: every change is applied to the BoardModel
+ * first and then mirrored onto the gem nodes.
  */
 
 @ccclass('Match3Game')
@@ -31,15 +84,76 @@ export class Match3Game extends Component {
     @property(Label)
     rotationsLabel: Label = null;
     
+    @property(Label)
+    movesLabel: Label = null;
+    
+    @property(Label)
+    objectivesLabel: Label = null;
+    
+    @property(Label)
+    comboLabel: Label = null;
+    
+    /**
+     * TIMER LABEL
+     * Countdown of time-attack levels; cloned from rotationsLabel when
+     * missing
+     */
+    @property(Label)
+    timerLabel: Label = null;
+    
     @property(Node)
     rotateLeftBtn: Node = null;
     
     @property(Node)
     rotateRightBtn: Node = null;
     
+    @property(Node)
+    undoBtn: Node = null;
+    
+    @property(Node)
+    redoBtn: Node = null;
+    
+    /**
+     * RESUME PROMPT
+     * Shown on start when a saved game exists, with resumeBtn and
+     * newGameBtn as children. Without it a saved game resumes directly.
+     */
+    @property(Node)
+    resumePrompt: Node = null;
+    
+    @property(Node)
+    resumeBtn: Node = null;
+    
+    @property(Node)
+    newGameBtn: Node = null;
+    
+    /**
+     * PATTERN EDITOR
+     * editorBtn toggles editor mode; editorLabel shows size, symmetry
+     * and validation while editing
+     * Symmetry: none, leftRight, topBottom or both
+     */
+    @property(Node)
+    editorBtn: Node = null;
+    
+    @property(Label)
+    editorLabel: Label = null;
+    
+    @property
+    editorSymmetry: string = 'none';
+    
     @property([SpriteFrame])
     gemSpriteFrames: SpriteFrame[] = [];
     
+    /**
+     * LEVEL DATA
+     * JSON level definition (see LevelDefinition.ts)
+     * When assigned it overrides the pattern, gem types, rotation budget,
+     * seed and auto-shuffle properties below
+     */
+    @property(JsonAsset)
+    levelData: JsonAsset = null;
+    
     @property
     gemSize: number = 60;
     
@@ -49,9 +163,96 @@ export class Match3Game extends Component {
     @property
     maxRotations: number = 10;
     
+    /**
+     * MOVE LIMIT
+     * Successful swaps allowed per level (0 = unlimited)
+     * Reverted swaps do not consume a move
+     */
+    @property
+    moveLimit: number = 0;
+    
+    /**
+     * UNDO LIMIT
+     * Undos allowed per level (-1 = unlimited, 0 = disabled)
+     */
+    @property
+    undoLimit: number = -1;
+    
+    /**
+     * GAME MODE
+     * classic (move and rotation budgets) or timeAttack (countdown,
+     * rotations cost time, see TimeAttackClock)
+     */
+    @property
+    gameMode: string = 'classic';
+    
     @property
     enableAutoShuffle: boolean = true;
     
+    /**
+     * HINT DELAY
+     * Seconds without input before the best move pulses (0 = no hints)
+     */
+    @property
+    hintDelay: number = 5;
+    
+    /**
+     * SWIPE THRESHOLD
+     * Drag distance in pixels before a touch-move swaps with the
+     * neighbour in that direction (tap-tap still works below it)
+     */
+    @property
+    swipeThreshold: number = 20;
+    
+    /**
+     * KEYBOARD INPUT
+     * Arrows/WASD or d-pad move a board cursor, Space/Enter or South
+     * selects and swaps, Q/E or L1/R1 rotate (see KeyboardGamepadInput)
+     * The cursor only shows once a key or button is used
+     */
+    @property
+    enableKeyboardInput: boolean = true;
+    
+    /**
+     * ENABLE SAVE RESUME
+     * Saves after every settled turn and offers to resume on start
+     */
+    @property
+    enableSaveResume: boolean = true;
+    
+    /**
+     * AUTOPLAY
+     * The bot plays the level (demos, smoke tests of gameplay changes)
+     * Strategy: greedy, lookahead or objective
+     */
+    @property
+    enableAutoplay: boolean = false;
+    
+    @property
+    autoplayStrategy: string = 'greedy';
+    
+    @property
+    autoplayDelay: number = 0.6;
+    
+    /**
+     * ANIMATION SPEED
+     * relaxed, normal, turbo or instant (no tweens at all)
+     * Autoplay uses autoplayAnimationSpeed while it is playing
+     */
+    @property
+    animationSpeed: string = 'normal';
+    
+    @property
+    autoplayAnimationSpeed: string = 'turbo';
+    
+    /**
+     * RANDOM SEED
+     * Seed for generation, refills and shuffles
+     * 0 picks a fresh seed each game (logged so it can be replayed)
+     */
+    @property
+    randomSeed: number = 0;
+    
     // @property({ multiline: true })
     boardPatternString: string =
     "0,0,0,1,1,1,1,0,0,0\n" +
@@ -67,16 +268,50 @@ export class Match3Game extends Component {
     
     private grid: Node[][] = [];
     private selectedGem: Node = null;
+    private dragGem: Node = null;
+    private dragStart: Vec2 = new Vec2();
+    private dragSwiped: boolean = false;
     private score: number = 0;
     private isProcessing: boolean = false;
     private rotationAngle: number = 0;
     private remainingRotations: number = 0;
+    private remainingMoves: number = 0;
     private playablePattern: number[][] = [];
+    private level: LevelDefinition = null;
+    private objectiveTracker: ObjectiveTracker = null;
+    private scoreModel: ScoreModel = new ScoreModel();
+    private hintFinder: HintFinder = null;
+    private hintTargets: Node[] = [];
+    private history: MoveHistory = null;
+    private isGameOver: boolean = false;
+    private gemPalette: number[] = [];
     private rows: number = 0;
     private cols: number = 0;
     
+    private board: BoardModel = null;
     private gravityManager: GravityManager = null;
     private matchValidator: MatchValidator = null;
+    private boardGenerator: BoardGenerator = null;
+    private specialGemManager: SpecialGemManager = null;
+    private blockerManager: BlockerManager = null;
+    private spawnerManager: SpawnerManager = null;
+    private autoplayBot: AutoplayBot = null;
+    private backgroundCells: Graphics[][] = [];
+    private random: SeededRandom = null;
+    private animator: AnimationSequencer = new AnimationSequencer();
+    private gemPool: GemPool = null;
+    private patternEditor: PatternEditor = null;
+    private cursor: BoardCursor = new BoardCursor();
+    private cursorNode: Node = null;
+    private keyboardInput: KeyboardGamepadInput = null;
+    private timeAttack: TimeAttackClock = null;
+    private editorLevel: LevelDefinition = null;
+    
+    /**
+     * EVENTS
+     * Typed game event bus; subscribe with game.events.on(...)
+     */
+    readonly events: GameEventBus = new GameEventBus();
     
     private readonly GEM_COLORS = [
         new Color(255, 80, 80),
@@ -89,8 +324,42 @@ export class Match3Game extends Component {
     start() {
         console.log('Match3Game starting...');
         
+        this.applyLevelDefinition(this.loadLevelDefinition());
+        this.applyAnimationSpeed();
+        
+        this.setupRotationButtons();
+        this.setupHistoryButtons();
+        this.setupEditorButton();
+        this.setupKeyboardInput();
+        
+        // A time-attack clock cannot be resumed, so those levels always start fresh
+        const savedGame = this.enableSaveResume && this.level.mode !== 'timeAttack' ? this.loadSavedGame() : null;
+        this.buildLevel(savedGame);
+        
+        console.log('Match3Game initialization complete');
+    }
+    
+    /**
+     * BUILD LEVEL
+     * Creates the board and every system for the current level, then
+     * resumes the saved game or starts a new one
+     * Also used to restart on an edited pattern
+     */
+    private buildLevel(savedGame: SavedGame | null) {
         this.remainingRotations = this.maxRotations;
-        this.playablePattern = this.parsePatternString();
+        this.remainingMoves = this.moveLimit;
+        this.score = 0;
+        this.rotationAngle = 0;
+        this.isGameOver = false;
+        this.selectedGem = null;
+        this.gridContainer.eulerAngles = new Vec3(0, 0, 0);
+        if (this.gridBackground) {
+            this.gridBackground.eulerAngles = new Vec3(0, 0, 0);
+        }
+        this.playablePattern = this.level.pattern;
+        this.timeAttack = this.level.mode === 'timeAttack' ? new TimeAttackClock(this.level.timeAttack) : null;
+        this.createHudLabelsIfMissing();
+        this.updateTimerDisplay();
         
         this.rows = this.playablePattern.length;
         this.cols = this.playablePattern.length > 0 ? this.playablePattern[0].length : 0;
@@ -102,62 +371,191 @@ export class Match3Game extends Component {
             return;
         }
         
+        // A resumed game keeps its original seed so the sequence continues
+        const seed = savedGame ? savedGame.seed : (this.randomSeed !== 0 ? this.randomSeed : createSeed());
+        this.random = new SeededRandom(seed);
+        console.log(`Random seed: ${this.random.seed}`);
+        
         // Initialize utility classes
-        this.gravityManager = new GravityManager(
-            this.grid, 
-            this.playablePattern, 
-            this.rows, 
-            this.cols,
-            (gem, row, col) => this.animateGemToGridPosition(gem, row, col)
+        this.board = new BoardModel(this.playablePattern);
+        this.applyCellFeatures();
+        this.gravityManager = new GravityManager(this.board);
+        this.matchValidator = new MatchValidator(this.board);
+        this.boardGenerator = new BoardGenerator(
+            this.board,
+            this.matchValidator,
+            this.gemTypes,
+            this.random,
+            createSpawnPolicy(this.level.spawnPolicy)
         );
-        
-        this.matchValidator = new MatchValidator(
-            this.grid,
-            this.playablePattern,
-            this.rows,
-            this.cols
+        this.specialGemManager = new SpecialGemManager(this.board);
+        this.blockerManager = new BlockerManager(this.board);
+        this.spawnerManager = new SpawnerManager(this.board, this.gravityManager, this.boardGenerator, this.level.spawners);
+        this.objectiveTracker = new ObjectiveTracker(this.level.objectives, this.board.countBlockerLayers());
+        this.autoplayBot = new AutoplayBot(
+            {
+                gemTypes: this.gemTypes,
+                spawners: this.level.spawners,
+                spawnPolicy: this.level.spawnPolicy,
+                enableAutoShuffle: this.enableAutoShuffle
+            },
+            createBotStrategy(this.autoplayStrategy),
+            botSeedFor(seed)
         );
+        this.hintFinder = new HintFinder(this.board, this.matchValidator, groups => this.scoreModel.evaluateGroups(groups));
+        this.warmUpGemPool();
         
         this.createGridBackground();
+        this.cursor.reset(this.board);
+        this.updateCursorView();
+        
+        if (savedGame && this.resumePrompt) {
+            this.showResumePrompt(savedGame);
+        } else if (savedGame) {
+            this.resumeGame(savedGame);
+        } else {
+            this.beginNewGame();
+        }
+    }
+    
+    /**
+     * UPDATE
+     * Runs the time-attack countdown
+     */
+    update(dt: number) {
+        if (!this.timeAttack || this.isGameOver || this.patternEditor) return;
+        
+        const expired = this.timeAttack.tick(dt, this.isProcessing);
+        this.updateTimerDisplay();
+        
+        // A turn still resolving ends the game once it settles
+        if (expired && !this.isProcessing) {
+            this.checkLevelResult();
+        }
+    }
+    
+    onDestroy() {
+        if (this.gemPool) this.gemPool.clear();
+        if (this.keyboardInput) this.keyboardInput.disable();
+    }
+    
+    private beginNewGame() {
         this.initializeGrid();
+        this.onBoardReady();
+    }
+    
+    private resumeGame(savedGame: SavedGame) {
+        console.log(`💾 Resuming game saved at ${new Date(savedGame.savedAt).toISOString()}`);
+        this.restoreSnapshot(savedGame.snapshot);
+        this.onBoardReady();
+    }
+    
+    /**
+     * ON BOARD READY
+     * Final setup once the board exists (fresh or resumed)
+     */
+    private onBoardReady() {
         this.updateScore();
         this.updateRotationsDisplay();
-        this.setupRotationButtons();
-        
-        console.log('Match3Game initialization complete');
+        this.updateMovesDisplay();
+        this.updateObjectivesDisplay();
+        this.history = new MoveHistory(this.createSnapshot(), this.undoLimit);
+        this.isProcessing = false;
+        this.resetHintTimer();
+        this.scheduleAutoplay();
     }
     
-    private parsePatternString(): number[][] {
-        const pattern: number[][] = [];
+    /**
+     * SHOW RESUME PROMPT
+     * Blocks input until the player picks resume or new game
+     */
+    private showResumePrompt(savedGame: SavedGame) {
+        this.isProcessing = true;
+        this.resumePrompt.active = true;
         
-        if (!this.boardPatternString || this.boardPatternString.trim() === '') {
-            for (let i = 0; i < 8; i++) {
-                pattern[i] = [];
-                for (let j = 0; j < 8; j++) {
-                    pattern[i][j] = 1;
-                }
+        const choose = (resume: boolean) => {
+            this.resumePrompt.active = false;
+            this.resumeBtn?.off(Node.EventType.TOUCH_END);
+            this.newGameBtn?.off(Node.EventType.TOUCH_END);
+            
+            if (resume) {
+                this.resumeGame(savedGame);
+            } else {
+                this.clearSavedGame();
+                this.beginNewGame();
             }
-            return pattern;
-        }
-        
-        const rows = this.boardPatternString.trim().split('\n');
+        };
         
-        for (let i = 0; i < rows.length; i++) {
-            const cols = rows[i].trim().split(/[,\s]+/).map(val => {
-                const parsed = parseInt(val.trim());
-                return (isNaN(parsed) || parsed === 0) ? 0 : 1;
-            });
-            pattern[i] = cols;
+        this.resumeBtn?.on(Node.EventType.TOUCH_END, () => choose(true), this);
+        this.newGameBtn?.on(Node.EventType.TOUCH_END, () => choose(false), this);
+    }
+    
+    /**
+     * LOAD LEVEL DEFINITION
+     * Uses the JSON level asset when assigned, otherwise builds an
+     * equivalent definition from the component properties
+     */
+    private loadLevelDefinition(): LevelDefinition {
+        if (this.levelData) {
+            try {
+                return parseLevelDefinition(this.levelData.json);
+            } catch (error) {
+                console.error(`Invalid level data in ${this.levelData.name}: ${error.message}`);
+            }
         }
         
-        const maxCols = Math.max(...pattern.map(row => row.length));
-        for (let i = 0; i < pattern.length; i++) {
-            while (pattern[i].length < maxCols) {
-                pattern[i].push(1);
-            }
+        const palette: number[] = [];
+        for (let i = 0; i < this.gemTypes; i++) {
+            palette.push(i);
         }
         
-        return pattern;
+        return {
+            version: LEVEL_FORMAT_VERSION,
+            id: '',
+            name: '',
+            pattern: parsePatternString(this.boardPatternString),
+            palette,
+            maxRotations: this.maxRotations,
+            moveLimit: this.moveLimit,
+            undoLimit: this.undoLimit,
+            seed: this.randomSeed,
+            enableAutoShuffle: this.enableAutoShuffle,
+            objectives: [],
+            cellFeatures: [],
+            spawners: [],
+            spawnPolicy: { type: 'uniform' },
+            mode: this.gameMode === 'timeAttack' ? 'timeAttack' : 'classic',
+            timeAttack: { ...DEFAULT_TIME_ATTACK }
+        };
+    }
+    
+    /**
+     * APPLY LEVEL DEFINITION
+     * Copies level settings onto the component before the board is built
+     */
+    private applyLevelDefinition(level: LevelDefinition) {
+        this.level = level;
+        this.gemPalette = level.palette.slice();
+        this.gemTypes = level.palette.length;
+        this.maxRotations = level.maxRotations;
+        // Time attack replaces the move budget with the clock
+        this.moveLimit = level.mode === 'timeAttack' ? 0 : level.moveLimit;
+        this.gameMode = level.mode;
+        this.undoLimit = level.undoLimit;
+        this.randomSeed = level.seed;
+        this.enableAutoShuffle = level.enableAutoShuffle;
+        
+        console.log(`Level loaded: ${level.name || level.id || 'component properties'}`);
+    }
+    
+    /**
+     * APPLY CELL FEATURES
+     * Multi-hit features from the level on top of the pattern cell types
+     */
+    private applyCellFeatures() {
+        for (const feature of this.level.cellFeatures) {
+            this.board.setFeature(feature.row, feature.col, feature.feature, feature.hits);
+        }
     }
     
     /**
@@ -171,8 +569,10 @@ export class Match3Game extends Component {
         }
         
         this.gridBackground.removeAllChildren();
+        this.backgroundCells = [];
         
         for (let row = 0; row < this.rows; row++) {
+            this.backgroundCells[row] = [];
             for (let col = 0; col < this.cols; col++) {
                 const cell = new Node(`GridCell_${row}_${col}`);
                 
@@ -181,22 +581,16 @@ export class Match3Game extends Component {
                 
                 // Use Graphics to draw solid color
                 const graphics = cell.addComponent(Graphics);
-                const isPlayable = this.playablePattern[row][col] === 1;
-                
-                if (isPlayable) {
-                    graphics.fillColor = new Color(200, 200, 200, 255);
-                } else {
-                    graphics.fillColor = new Color(40, 40, 40, 255);
-                }
-                
-                const halfSize = (this.gemSize - 2) / 2;
-                graphics.rect(-halfSize, -halfSize, this.gemSize - 2, this.gemSize - 2);
-                graphics.fill();
+                this.backgroundCells[row][col] = graphics;
+                this.drawGridCell(row, col);
                 
                 const x = (col - this.cols / 2) * this.gemSize + this.gemSize / 2;
                 const y = (row - this.rows / 2) * this.gemSize + this.gemSize / 2;
                 cell.setPosition(x, y, 0);
                 
+                // Grid cells only take input in editor mode, gems cover them otherwise
+                cell.on(Node.EventType.TOUCH_END, () => this.onEditorCellClicked(row, col), this);
+                
                 this.gridBackground.addChild(cell);
             }
         }
@@ -204,6 +598,66 @@ export class Match3Game extends Component {
         console.log(`Grid background created with ${this.gridBackground.children.length} cells`);
     }
     
+    /**
+     * DRAW GRID CELL
+     * Cell color shows its strongest feature:
+     * stone (brown) > chain (grey, crossed) > ice (light blue) > jelly (pink)
+     * Extra hits draw a thicker outline
+     */
+    private drawGridCell(row: number, col: number) {
+        const graphics = this.backgroundCells[row]?.[col];
+        if (!graphics) return;
+        
+        graphics.clear();
+        
+        const size = this.gemSize - 2;
+        const halfSize = size / 2;
+        const features: CellFeatures = this.board.getFeatures(row, col);
+        
+        if (this.board.isHole(row, col)) {
+            graphics.fillColor = new Color(40, 40, 40, 255);
+        } else if (features.stone > 0) {
+            graphics.fillColor = new Color(120, 90, 60, 255);
+        } else if (features.chain > 0) {
+            graphics.fillColor = new Color(150, 150, 150, 255);
+        } else if (features.ice > 0) {
+            graphics.fillColor = new Color(170, 220, 255, 255);
+        } else if (features.jelly > 0) {
+            graphics.fillColor = new Color(255, 170, 200, 255);
+        } else {
+            graphics.fillColor = new Color(200, 200, 200, 255);
+        }
+        
+        graphics.rect(-halfSize, -halfSize, size, size);
+        graphics.fill();
+        
+        if (features.chain > 0) {
+            graphics.strokeColor = new Color(60, 60, 60, 255);
+            graphics.lineWidth = 2;
+            graphics.moveTo(-halfSize, -halfSize);
+            graphics.lineTo(halfSize, halfSize);
+            graphics.moveTo(-halfSize, halfSize);
+            graphics.lineTo(halfSize, -halfSize);
+            graphics.stroke();
+        }
+        
+        const hits = Math.max(features.stone, features.chain, features.ice, features.jelly);
+        if (hits > 1) {
+            graphics.strokeColor = new Color(255, 255, 255, 255);
+            graphics.lineWidth = Math.min(hits, 4);
+            graphics.rect(-halfSize, -halfSize, size, size);
+            graphics.stroke();
+        }
+    }
+    
+    private refreshGridBackground() {
+        for (let row = 0; row < this.backgroundCells.length; row++) {
+            for (let col = 0; col < this.backgroundCells[row].length; col++) {
+                this.drawGridCell(row, col);
+            }
+        }
+    }
+    
     private setupRotationButtons() {
         if (this.rotateLeftBtn) {
             this.rotateLeftBtn.on(Node.EventType.TOUCH_END, () => this.rotateBoard(-90), this);
@@ -213,42 +667,80 @@ export class Match3Game extends Component {
         }
     }
     
+    private setupHistoryButtons() {
+        if (this.undoBtn) {
+            this.undoBtn.on(Node.EventType.TOUCH_END, () => this.undo(), this);
+        }
+        if (this.redoBtn) {
+            this.redoBtn.on(Node.EventType.TOUCH_END, () => this.redo(), this);
+        }
+    }
+    
+    private setupKeyboardInput() {
+        if (!this.enableKeyboardInput) return;
+        this.keyboardInput = new KeyboardGamepadInput(action => this.onInputAction(action));
+        this.keyboardInput.enable();
+    }
+    
+    private setupEditorButton() {
+        if (this.editorBtn) {
+            this.editorBtn.on(Node.EventType.TOUCH_END, () => this.setEditorMode(!this.patternEditor), this);
+        }
+    }
+    
     private initializeGrid() {
-        let attempts = 0;
-        const maxAttempts = 100;
+        const attempts = this.boardGenerator.generate();
         
-        while (attempts < maxAttempts) {
-            attempts++;
-            
-            for (let row = 0; row < this.rows; row++) {
-                this.grid[row] = [];
-                for (let col = 0; col < this.cols; col++) {
-                    if (this.playablePattern[row][col] === 0) {
-                        this.grid[row][col] = null;
-                        continue;
-                    }
-                    
-                    let gemType: number;
-                    let safetyCounter = 0;
-                    do {
-                        gemType = this.getRandomGemType();
-                        safetyCounter++;
-                        if (safetyCounter > 50) {
-                            gemType = (gemType + 1) % this.gemTypes;
-                            break;
-                        }
-                    } while (this.matchValidator.wouldCreateMatch(row, col, gemType));
-                    
-                    this.createGem(row, col, gemType);
-                }
+        const hasValidMoves = this.matchValidator.hasValidMoves();
+        if (hasValidMoves) {
+            console.log(`✅ Valid board generated after ${attempts} attempts`);
+        } else {
+            console.log(`❌ No valid board after ${attempts} attempts`);
+        }
+        this.events.emit('boardGenerated', { attempts, hasValidMoves });
+        
+        this.buildGridView();
+    }
+    
+    /**
+     * WARM UP GEM POOL
+     * Pre-instantiates one node per playable cell so the first refills
+     * and shuffles never instantiate
+     */
+    private warmUpGemPool() {
+        if (!this.gemPool) this.gemPool = new GemPool(this.gemPrefab);
+        
+        let playableCells = 0;
+        for (let row = 0; row < this.rows; row++) {
+            for (let col = 0; col < this.cols; col++) {
+                if (this.board.isPlayable(row, col)) playableCells++;
             }
-            
-            if (this.matchValidator.hasValidMoves()) {
-                console.log(`✅ Valid board generated after ${attempts} attempts`);
-                return;
-            } else {
-                console.log(`❌ No valid moves, regenerating...`);
-                this.clearGrid();
+        }
+        
+        this.gemPool.warmUp(playableCells);
+        console.log(`♻️ Gem pool warmed up with ${playableCells} nodes`);
+    }
+    
+    /**
+     * GET GEM POOL STATS
+     * Node reuse counters for profiling (see GemPoolStats)
+     */
+    getGemPoolStats(): GemPoolStats {
+        return this.gemPool ? this.gemPool.getStats() : null;
+    }
+    
+    /**
+     * BUILD GRID VIEW
+     * Creates one gem node per gem in the board model
+     */
+    private buildGridView() {
+        for (let row = 0; row < this.rows; row++) {
+            this.grid[row] = [];
+            for (let col = 0; col < this.cols; col++) {
+                this.grid[row][col] = null;
+                if (this.board.hasGem(row, col)) {
+                    this.createGem(row, col, this.board.getType(row, col), this.board.getSpecial(row, col));
+                }
             }
         }
     }
@@ -256,31 +748,34 @@ export class Match3Game extends Component {
     private clearGrid() {
         for (let row = 0; row < this.rows; row++) {
             for (let col = 0; col < this.cols; col++) {
-                if (this.grid[row][col]) {
-                    this.grid[row][col].destroy();
+                if (this.grid[row] && this.grid[row][col]) {
+                    this.gemPool.release(this.grid[row][col]);
                     this.grid[row][col] = null;
                 }
             }
         }
     }
     
-    private createGem(row: number, col: number, gemType: number) {
-        const gem = instantiate(this.gemPrefab);
+    private createGem(row: number, col: number, gemType: number, special: SpecialKind = SpecialKind.NONE) {
+        const gem = this.gemPool.acquire();
         
-        const gemComponent = gem.addComponent(Gem);
+        const gemComponent = gem.getComponent(Gem);
         gemComponent.type = gemType;
         gemComponent.row = row;
         gemComponent.col = col;
+        gemComponent.special = special;
         
         // Always use sprite frames, no color tint
+        // The level palette maps each gem type to a sprite index
+        const spriteIndex = this.gemPalette.length > gemType ? this.gemPalette[gemType] : gemType;
         const sprite = gem.getComponent(Sprite);
         if (sprite) {
-            if (this.gemSpriteFrames && this.gemSpriteFrames.length > gemType && this.gemSpriteFrames[gemType]) {
-                sprite.spriteFrame = this.gemSpriteFrames[gemType];
+            if (this.gemSpriteFrames && this.gemSpriteFrames.length > spriteIndex && this.gemSpriteFrames[spriteIndex]) {
+                sprite.spriteFrame = this.gemSpriteFrames[spriteIndex];
                 sprite.color = Color.WHITE; // Pure sprite, no tint
             } else {
                 // Fallback to solid color if no sprite
-                sprite.color = this.GEM_COLORS[gemType];
+                sprite.color = this.GEM_COLORS[spriteIndex % this.GEM_COLORS.length];
             }
         }
         
@@ -291,16 +786,119 @@ export class Match3Game extends Component {
         // Counter-rotate gem to keep it upright relative to world
         gem.eulerAngles = new Vec3(0, 0, -this.gridContainer.eulerAngles.z);
         
+        if (special !== SpecialKind.NONE) {
+            this.addSpecialMarker(gem, special);
+        }
+        
+        gem.on(Node.EventType.TOUCH_START, this.onGemTouchStart, this);
+        gem.on(Node.EventType.TOUCH_MOVE, this.onGemTouchMove, this);
         gem.on(Node.EventType.TOUCH_END, this.onGemClicked, this);
+        gem.on(Node.EventType.TOUCH_CANCEL, this.onGemTouchCancel, this);
         
         this.gridContainer.addChild(gem);
         this.grid[row][col] = gem;
     }
     
+    /**
+     * ADD SPECIAL MARKER
+     * Draws a child overlay so special gems stand out from plain ones
+     * - Line gems: white bar along the clearing direction
+     * - Bomb: white ring
+     * - Color bomb: filled white disc
+     */
+    private addSpecialMarker(gem: Node, special: SpecialKind) {
+        const marker = new Node('SpecialMarker');
+        marker.addComponent(UITransform).setContentSize(this.gemSize, this.gemSize);
+        
+        const graphics = marker.addComponent(Graphics);
+        const size = this.gemSize * 0.6;
+        graphics.fillColor = new Color(255, 255, 255, 220);
+        graphics.strokeColor = new Color(255, 255, 255, 220);
+        graphics.lineWidth = 4;
+        
+        switch (special) {
+            case SpecialKind.LINE_HORIZONTAL:
+                graphics.rect(-size / 2, -3, size, 6);
+                graphics.fill();
+                break;
+            case SpecialKind.LINE_VERTICAL:
+                graphics.rect(-3, -size / 2, 6, size);
+                graphics.fill();
+                break;
+            case SpecialKind.BOMB:
+                graphics.circle(0, 0, size / 2);
+                graphics.stroke();
+                break;
+            case SpecialKind.COLOR_BOMB:
+                graphics.circle(0, 0, size / 3);
+                graphics.fill();
+                break;
+        }
+        
+        gem.addChild(marker);
+    }
+    
+    private onGemTouchStart(event: EventTouch) {
+        this.dragGem = event.target as Node;
+        this.dragSwiped = false;
+        event.getUILocation(this.dragStart);
+    }
+    
+    /**
+     * ON GEM TOUCH MOVE
+     * Swipe swapping: once the drag passes swipeThreshold, swap with the
+     * neighbour in the drag direction. The screen direction is mapped
+     * through the board rotation so it matches what the player sees.
+     */
+    private onGemTouchMove(event: EventTouch) {
+        if (!this.dragGem || this.dragSwiped) return;
+        if (this.isProcessing || this.isGameOver || this.isOutOfMoves()) return;
+        
+        const location = event.getUILocation();
+        const dx = location.x - this.dragStart.x;
+        const dy = location.y - this.dragStart.y;
+        if (Math.sqrt(dx * dx + dy * dy) < this.swipeThreshold) return;
+        
+        this.dragSwiped = true;
+        this.resetHintTimer();
+        
+        const gemComp = this.dragGem.getComponent(Gem);
+        const { dRow, dCol } = screenToGridDirection(dx, dy, this.rotationAngle);
+        const row = gemComp.row + dRow;
+        const col = gemComp.col + dCol;
+        if (!this.board.isPlayable(row, col) || !this.grid[row][col]) return;
+        
+        if (this.selectedGem) {
+            this.highlightGem(this.selectedGem, false);
+            this.selectedGem = null;
+        }
+        
+        this.swapGems(this.dragGem, this.grid[row][col]);
+    }
+    
+    private onGemTouchCancel() {
+        this.dragGem = null;
+        this.dragSwiped = false;
+    }
+    
     private onGemClicked(event: any) {
-        if (this.isProcessing) return;
+        // A swipe already handled this touch
+        const swiped = this.dragSwiped;
+        this.onGemTouchCancel();
+        if (swiped) return;
         
-        const clickedGem = event.target;
+        this.selectGem(event.target);
+    }
+    
+    /**
+     * SELECT GEM
+     * Tap/confirm logic shared by touch and the keyboard cursor:
+     * select, deselect, swap with the selected neighbour or move the
+     * selection
+     */
+    private selectGem(clickedGem: Node) {
+        this.resetHintTimer();
+        if (this.isProcessing || this.isGameOver || this.isOutOfMoves()) return;
         
         if (!this.selectedGem) {
             this.selectedGem = clickedGem;
@@ -328,18 +926,104 @@ export class Match3Game extends Component {
         }
     }
     
-    private areAdjacent(row1: number, col1: number, row2: number, col2: number): boolean {
-        const rowDiff = Math.abs(row1 - row2);
-        const colDiff = Math.abs(col1 - col2);
-        return (rowDiff === 1 && colDiff === 0) || (rowDiff === 0 && colDiff === 1);
+    /**
+     * ON INPUT ACTION
+     * Keyboard and gamepad actions; directions are screen directions and
+     * follow the board rotation
+     */
+    private onInputAction(action: InputAction) {
+        if (!this.board) return;
+        this.showCursor();
+        
+        switch (action) {
+            case 'up': this.moveCursor(0, 1); break;
+            case 'down': this.moveCursor(0, -1); break;
+            case 'left': this.moveCursor(-1, 0); break;
+            case 'right': this.moveCursor(1, 0); break;
+            case 'select': this.selectAtCursor(); break;
+            case 'cancel': this.clearSelection(); break;
+            case 'rotateLeft': this.rotateBoard(-90); break;
+            case 'rotateRight': this.rotateBoard(90); break;
+        }
     }
     
-    private async swapGems(gem1: Node, gem2: Node) {
-        this.isProcessing = true;
-        
-        const comp1 = gem1.getComponent(Gem);
-        const comp2 = gem2.getComponent(Gem);
-        
+    private moveCursor(dx: number, dy: number) {
+        // The editor can paint holes, so every cell is reachable there
+        const canEnter = this.patternEditor ? () => true : undefined;
+        if (this.cursor.move(dx, dy, this.rotationAngle, this.board, canEnter)) {
+            this.updateCursorView();
+        }
+    }
+    
+    private selectAtCursor() {
+        const { row, col } = this.cursor.getPosition();
+        if (this.patternEditor) {
+            this.onEditorCellClicked(row, col);
+            return;
+        }
+        
+        const gem = this.grid[row] ? this.grid[row][col] : null;
+        if (gem) this.selectGem(gem);
+    }
+    
+    private clearSelection() {
+        if (this.selectedGem) {
+            this.highlightGem(this.selectedGem, false);
+            this.selectedGem = null;
+        }
+    }
+    
+    /**
+     * SHOW CURSOR
+     * Creates the cursor frame on first keyboard/gamepad use
+     */
+    private showCursor() {
+        if (this.cursorNode) return;
+        
+        this.cursorNode = new Node('BoardCursor');
+        this.cursorNode.addComponent(UITransform).setContentSize(this.gemSize, this.gemSize);
+        
+        const graphics = this.cursorNode.addComponent(Graphics);
+        const halfSize = this.gemSize / 2 - 2;
+        graphics.strokeColor = new Color(255, 255, 255, 255);
+        graphics.lineWidth = 4;
+        graphics.rect(-halfSize, -halfSize, halfSize * 2, halfSize * 2);
+        graphics.stroke();
+        
+        this.gridContainer.addChild(this.cursorNode);
+        this.updateCursorView();
+    }
+    
+    private updateCursorView() {
+        if (!this.cursorNode) return;
+        
+        const { row, col } = this.cursor.getPosition();
+        this.cursorNode.setPosition(this.getCellPosition(row, col));
+        // Keep the frame above gems created since the last move
+        this.cursorNode.setSiblingIndex(this.gridContainer.children.length - 1);
+    }
+    
+    private areAdjacent(row1: number, col1: number, row2: number, col2: number): boolean {
+        const rowDiff = Math.abs(row1 - row2);
+        const colDiff = Math.abs(col1 - col2);
+        return (rowDiff === 1 && colDiff === 0) || (rowDiff === 0 && colDiff === 1);
+    }
+    
+    private async swapGems(gem1: Node, gem2: Node) {
+        const comp1 = gem1.getComponent(Gem);
+        const comp2 = gem2.getComponent(Gem);
+        const from = { row: comp1.row, col: comp1.col };
+        const to = { row: comp2.row, col: comp2.col };
+        this.events.emit('swapAttempted', { from, to });
+        
+        if (this.board.isLocked(comp1.row, comp1.col) || this.board.isLocked(comp2.row, comp2.col)) {
+            console.log('🔒 Gem is locked by chains');
+            this.rejectSwap(from, to, 'locked');
+            return;
+        }
+        
+        this.isProcessing = true;
+        
         const tempRow = comp1.row;
         const tempCol = comp1.col;
         
@@ -348,6 +1032,7 @@ export class Match3Game extends Component {
         comp2.row = tempRow;
         comp2.col = tempCol;
         
+        this.board.swap(comp1.row, comp1.col, comp2.row, comp2.col);
         this.grid[comp1.row][comp1.col] = gem1;
         this.grid[comp2.row][comp2.col] = gem2;
         
@@ -356,8 +1041,23 @@ export class Match3Game extends Component {
         const matches = this.matchValidator.findAllMatches();
         
         if (matches.length > 0) {
-            await this.processMatches(matches);
+            // Only successful swaps consume a move
+            if (this.moveLimit > 0) {
+                this.remainingMoves--;
+                this.updateMovesDisplay();
+            }
+            
+            const swapCells = [
+                { row: comp1.row, col: comp1.col },
+                { row: comp2.row, col: comp2.col }
+            ];
+            
+            this.scoreModel.beginTurn('swap');
+            await this.processMatches(matches, swapCells);
+            this.events.emit('turnScored', this.scoreModel.endTurn());
             await this.checkAndShuffleIfNoMoves();
+            this.recordHistory({ kind: 'swap', from: swapCells[1], to: swapCells[0] });
+            this.checkLevelResult();
         } else {
             const tempRow2 = comp1.row;
             const tempCol2 = comp1.col;
@@ -367,76 +1067,92 @@ export class Match3Game extends Component {
             comp2.row = tempRow2;
             comp2.col = tempCol2;
             
+            this.board.swap(comp1.row, comp1.col, comp2.row, comp2.col);
             this.grid[comp1.row][comp1.col] = gem1;
             this.grid[comp2.row][comp2.col] = gem2;
             
             await this.animateSwap(gem1, gem2);
+            this.rejectSwap(from, to, 'noMatch');
         }
         
         this.isProcessing = false;
+        this.resetHintTimer();
+        this.scheduleAutoplay();
+    }
+    
+    private rejectSwap(from: CellPosition, to: CellPosition, reason: SwapRejectReason) {
+        this.events.emit('swapRejected', { from, to, reason });
     }
     
     private animateSwap(gem1: Node, gem2: Node): Promise<void> {
-        return new Promise((resolve) => {
-            const pos1 = gem1.position.clone();
-            const pos2 = gem2.position.clone();
-            
-            let completed = 0;
-            const onComplete = () => {
-                completed++;
-                if (completed === 2) resolve();
-            };
-            
-            tween(gem1).to(0.3, { position: pos2 }).call(onComplete).start();
-            tween(gem2).to(0.3, { position: pos1 }).call(onComplete).start();
-        });
+        const pos1 = gem1.position.clone();
+        const pos2 = gem2.position.clone();
+        
+        return this.animator.all([
+            this.animator.play(gem1, [{ name: 'swap', props: { position: pos2 } }]),
+            this.animator.play(gem2, [{ name: 'swap', props: { position: pos1 } }])
+        ]);
     }
     
     private async rotateBoard(degrees: number) {
-        if (this.isProcessing || this.remainingRotations <= 0) return;
+        if (this.isProcessing || this.isGameOver || this.getAvailableRotations() <= 0) return;
+        
+        this.resetHintTimer();
         
         this.isProcessing = true;
-        this.remainingRotations--;
-        this.updateRotationsDisplay();
+        if (this.timeAttack) {
+            this.timeAttack.chargeRotation();
+            this.updateTimerDisplay();
+        } else {
+            this.remainingRotations--;
+            this.updateRotationsDisplay();
+        }
         
         this.rotationAngle = (this.rotationAngle + degrees + 360) % 360;
         
         // Rotate container AND all gems
         await this.animateRotation(degrees);
+        this.events.emit('rotated', { degrees, rotationAngle: this.rotationAngle, remainingRotations: this.remainingRotations });
         await this.applyGravity();
         
         const matches = this.matchValidator.findAllMatches();
         if (matches.length > 0) {
+            this.scoreModel.beginTurn('rotation');
             await this.processMatches(matches);
+            this.events.emit('turnScored', this.scoreModel.endTurn());
         }
         
         await this.checkAndShuffleIfNoMoves();
+        this.recordHistory({ kind: 'rotate', degrees });
+        this.checkLevelResult();
         
         this.isProcessing = false;
+        this.resetHintTimer();
+        this.scheduleAutoplay();
     }
     
-    private animateRotation(degrees: number): Promise<void> {
-        return new Promise((resolve) => {
-            const currentRotation = this.gridContainer.eulerAngles.clone();
-            const targetRotation = currentRotation.clone();
-            targetRotation.z += degrees;
-            
-            // Rotate container
-            tween(this.gridContainer)
-                .to(0.5, { eulerAngles: targetRotation })
-                .call(() => {
-                    // Counter-rotate all gems to keep them upright
-                    for (let row = 0; row < this.rows; row++) {
-                        for (let col = 0; col < this.cols; col++) {
-                            if (this.grid[row][col]) {
-                                this.grid[row][col].eulerAngles = new Vec3(0, 0, -targetRotation.z);
-                            }
-                        }
-                    }
-                    resolve();
-                })
-                .start();
-        });
+    private async animateRotation(degrees: number): Promise<void> {
+        const currentRotation = this.gridContainer.eulerAngles.clone();
+        const targetRotation = currentRotation.clone();
+        targetRotation.z += degrees;
+        
+        const animations = [this.animator.play(this.gridContainer, [{ name: 'rotation', props: { eulerAngles: targetRotation } }])];
+        
+        // Rotate the background with the container so cell features stay under their gems
+        if (this.gridBackground) {
+            animations.push(this.animator.play(this.gridBackground, [{ name: 'rotation', props: { eulerAngles: targetRotation.clone() } }]));
+        }
+        
+        await this.animator.all(animations);
+        
+        // Counter-rotate all gems to keep them upright
+        for (let row = 0; row < this.rows; row++) {
+            for (let col = 0; col < this.cols; col++) {
+                if (this.grid[row][col]) {
+                    this.grid[row][col].eulerAngles = new Vec3(0, 0, -targetRotation.z);
+                }
+            }
+        }
     }
     
     /**
@@ -448,37 +1164,108 @@ export class Match3Game extends Component {
         console.log(`Starting gravity (angle: ${this.rotationAngle}°)`);
         
         // Step 1: Compact existing gems ONE TIME
-        let moved = false;
-        switch (this.rotationAngle) {
-            case 0:
-                moved = await this.gravityManager.applyDown();
-                break;
-            case 90:
-                moved = await this.gravityManager.applyLeft();
-                break;
-            case 180:
-                moved = await this.gravityManager.applyUp();
-                break;
-            case 270:
-                moved = await this.gravityManager.applyRight();
-                break;
-        }
+        const spawners = this.spawnerManager.getSpawners(this.rotationAngle);
+        const moves = this.gravityManager.applyForRotation(this.rotationAngle, spawners);
+        await this.applyGemMoves(moves);
         
-        console.log(`Compact complete: moved = ${moved}`);
+        console.log(`Compact complete: moved = ${moves.length > 0}`);
         
         // Step 2: Fill empty spaces
         // New gems are created already in their final positions
         console.log(`Filling empty spaces...`);
-        await this.fillEmptySpaces();
+        const spawned = await this.fillEmptySpaces();
         
         console.log(`Gravity complete`);
+        this.events.emit('gravitySettled', { rotationAngle: this.rotationAngle, moved: moves.length, spawned });
     }
     
-    private async processMatches(matches: Node[]) {
-        this.score += matches.length * 10;
-        this.updateScore();
+    /**
+     * APPLY GEM MOVES
+     * Mirrors gravity moves from the board model onto the gem nodes
+     */
+    private async applyGemMoves(moves: GemMove[]): Promise<void> {
+        const movingGems = moves.map(move => this.grid[move.fromRow][move.fromCol]);
+        
+        for (const move of moves) {
+            this.grid[move.fromRow][move.fromCol] = null;
+        }
+        
+        const promises: Promise<void>[] = [];
+        moves.forEach((move, index) => {
+            const gem = movingGems[index];
+            if (!gem) return;
+            
+            this.grid[move.toRow][move.toCol] = gem;
+            const gemComp = gem.getComponent(Gem);
+            gemComp.row = move.toRow;
+            gemComp.col = move.toCol;
+            
+            promises.push(this.animateGemAlongPath(gem, move.path || [{ row: move.toRow, col: move.toCol }]));
+        });
+        
+        await this.animator.all(promises);
+    }
+    
+    /**
+     * ANIMATE GEM ALONG PATH
+     * Plays one fall step per waypoint so diagonal slides read as a path
+     */
+    private animateGemAlongPath(gem: Node, path: CellPosition[]): Promise<void> {
+        const name = path.length > 1 ? 'fallStep' : 'fall';
+        return this.animator.play(gem, path.map(({ row, col }) => ({ name, props: { position: this.getCellPosition(row, col) } })));
+    }
+    
+    /**
+     * GET CELL POSITION
+     * Local position of a grid cell inside gridContainer
+     */
+    private getCellPosition(row: number, col: number): Vec3 {
+        const x = (col - this.cols / 2) * this.gemSize + this.gemSize / 2;
+        const y = (row - this.rows / 2) * this.gemSize + this.gemSize / 2;
+        return new Vec3(x, y, 0);
+    }
+    
+    /**
+     * PROCESS MATCHES
+     * Resolves one cascade wave, then recurses while new matches appear
+     * swapCells marks where the player's swap landed, so specials created
+     * by that swap spawn there; cascade waves pass none
+     */
+    private async processMatches(matches: CellPosition[], swapCells: CellPosition[] = []) {
+        const groups = this.matchValidator.findMatchGroups();
+        const creations = this.specialGemManager.planCreations(groups, swapCells);
+        const cleared = this.specialGemManager.expandActivations(matches);
+        
+        // Chained gems survive the clear; ice, jelly and stone lose a layer
+        const blockers = this.blockerManager.resolveClears(matches, cleared);
+        // Only removed gems score; a group held whole by chains scores in the wave that removes it
+        const scored = this.blockerManager.getScoredMatches(groups, blockers);
+        const clearedTypes = blockers.removed.map(({ row, col }) => this.board.getType(row, col));
+        blockers.changed.forEach(({ row, col }) => this.drawGridCell(row, col));
+        
+        const wave = this.scoreModel.scoreWave(scored.groups, scored.clearedCount);
+        this.setScore(this.score + wave.points);
+        this.showComboPopup(wave);
+        this.addTimeBonus(wave);
+        this.events.emit('matchResolved', { groups, cleared, cascadeDepth: wave.cascadeDepth, wave });
+        
+        this.objectiveTracker.recordScore(this.score);
+        this.objectiveTracker.recordClearedGems(clearedTypes);
+        this.objectiveTracker.recordClearedBlockers(blockers.brokenLayers);
+        this.updateObjectivesDisplay();
+        this.events.emit('objectivesChanged', this.objectiveTracker.getProgress());
+        
+        if (blockers.removed.length > 0) {
+            await this.removeGems(blockers.removed);
+        }
+        
+        for (const creation of creations) {
+            // A chained gem still occupies its cell
+            if (this.board.hasGem(creation.row, creation.col)) continue;
+            this.board.setGem(creation.row, creation.col, { type: creation.type, special: creation.special });
+            this.createGem(creation.row, creation.col, creation.type, creation.special);
+        }
         
-        await this.removeGems(matches);
         await this.applyGravity();
         
         const newMatches = this.matchValidator.findAllMatches();
@@ -487,249 +1274,625 @@ export class Match3Game extends Component {
         }
     }
     
-    private removeGems(gems: Node[]): Promise<void> {
-        return new Promise((resolve) => {
-            let completed = 0;
-            
-            for (const gem of gems) {
-                const comp = gem.getComponent(Gem);
-                this.grid[comp.row][comp.col] = null;
-                
-                tween(gem)
-                    .to(0.3, { scale: new Vec3(0, 0, 0) })
-                    .call(() => {
-                        gem.destroy();
-                        completed++;
-                        if (completed === gems.length) resolve();
-                    })
-                    .start();
+    /**
+     * REMOVE GEMS
+     * Clears the cells in the model and shrinks their nodes away
+     * Resolves right away when no cell holds a node
+     */
+    private removeGems(cells: CellPosition[]): Promise<void> {
+        const gems: Node[] = [];
+        for (const { row, col } of cells) {
+            this.board.removeGem(row, col);
+            if (this.grid[row][col]) {
+                gems.push(this.grid[row][col]);
+                this.grid[row][col] = null;
             }
-        });
+        }
+        
+        return this.animator.all(gems.map(gem =>
+            this.animator.play(gem, [{ name: 'removal', props: { scale: new Vec3(0, 0, 0) } }]).then(() => this.gemPool.release(gem))
+        ));
     }
     
-    private async fillEmptySpaces(): Promise<void> {
-        const promises = [];
+    /**
+     * FILL EMPTY SPACES
+     * New gems appear just outside their spawner and follow the path
+     * gravity gave them; later refill rounds start a little later so
+     * gems stream in one after another
+     * Returns the number of gems spawned
+     */
+    private async fillEmptySpaces(): Promise<number> {
+        const refill = this.spawnerManager.refill(this.rotationAngle);
+        const promises: Promise<void>[] = [this.applyGemMoves(refill.moves)];
         
-        switch (this.rotationAngle) {
-            case 0:
-                promises.push(...this.fillFromTop());
-                break;
-            case 90:
-                promises.push(...this.fillFromRight());
-                break;
-            case 180:
-                promises.push(...this.fillFromBottom());
-                break;
-            case 270:
-                promises.push(...this.fillFromLeft());
-                break;
+        for (const spawned of refill.spawned) {
+            const target = spawned.path[spawned.path.length - 1];
+            this.createGem(target.row, target.col, this.board.getType(target.row, target.col), this.board.getSpecial(target.row, target.col));
+            
+            const gem = this.grid[target.row][target.col];
+            gem.setPosition(this.getCellPosition(spawned.entry.row, spawned.entry.col));
+            
+            promises.push(this.animateSpawnedGem(gem, spawned.path, spawned.round));
         }
         
-        await Promise.all(promises);
+        await this.animator.all(promises);
+        return refill.spawned.length;
     }
     
-    private fillFromTop(): Promise<void>[] {
-        const promises = [];
+    private animateSpawnedGem(gem: Node, path: CellPosition[], round: number): Promise<void> {
+        const delay = round * this.animator.getDuration('spawnRoundDelay');
+        const steps = path.map(({ row, col }) => ({ name: 'spawnStep' as const, props: { position: this.getCellPosition(row, col) } }));
+        return this.animator.play(gem, steps, delay);
+    }
+    
+    private async checkAndShuffleIfNoMoves() {
+        if (!this.enableAutoShuffle || this.matchValidator.hasValidMoves()) return;
         
-        for (let col = 0; col < this.cols; col++) {
-            // Find all empty playable cells in this column
-            const emptyCells: number[] = [];
-            for (let row = 0; row < this.rows; row++) {
-                if (this.isPlayableCell(row, col) && !this.grid[row][col]) {
-                    emptyCells.push(row);
-                }
-            }
-            
-            // Create gems for each empty cell
-            for (const row of emptyCells) {
-                const gemType = this.getRandomGemType();
-                this.createGem(row, col, gemType);
-                
-                const gem = this.grid[row][col];
-                const targetY = (row - this.rows / 2) * this.gemSize + this.gemSize / 2;
-                const startY = (this.rows / 2 + 3) * this.gemSize;
-                gem.setPosition(gem.position.x, startY, 0);
-                
-                promises.push(this.animateGemToGridPosition(gem, row, col));
-            }
+        console.log('⚠️ No valid moves, shuffling...');
+        const strategy = await this.shuffleBoard();
+        
+        if (strategy === 'failed') {
+            // The board shape leaves no room for a move (see BoardGenerator.shuffle);
+            // checkLevelResult ends the level unless a rotation can still help
+            console.warn('⚠️ Shuffle could not find a board with a valid move, only rotations are left');
+        }
+    }
+    
+    /**
+     * SHUFFLE BOARD
+     * Keeps the existing gem nodes and flies them to their new cells;
+     * only a regenerated board swaps nodes for new ones
+     * Returns the strategy used ('failed' leaves the board untouched)
+     */
+    private async shuffleBoard(): Promise<ShuffleStrategy> {
+        console.log('🔀 Shuffling board...');
+        
+        const result = this.boardGenerator.shuffle();
+        
+        if (result.strategy === 'failed') {
+            this.events.emit('shuffled', { strategy: result.strategy, moved: 0, regenerated: 0 });
+            return result.strategy;
         }
         
-        return promises;
+        await Promise.all([
+            this.animateShuffleMoves(result.moves),
+            this.replaceGemNodes(result.regenerated)
+        ]);
+        
+        console.log(`✅ Shuffled successfully (${result.strategy})`);
+        this.events.emit('shuffled', { strategy: result.strategy, moved: result.moves.length, regenerated: result.regenerated.length });
+        return result.strategy;
     }
     
-    private fillFromRight(): Promise<void>[] {
-        const promises = [];
+    private animateShuffleMoves(moves: GemMove[]): Promise<void> {
+        const nodes = moves.map(move => this.grid[move.fromRow][move.fromCol]);
         
-        for (let row = 0; row < this.rows; row++) {
-            const emptyCells: number[] = [];
-            for (let col = 0; col < this.cols; col++) {
-                if (this.isPlayableCell(row, col) && !this.grid[row][col]) {
-                    emptyCells.push(col);
-                }
-            }
+        const promises = moves.map((move, index) => {
+            const gem = nodes[index];
+            this.grid[move.toRow][move.toCol] = gem;
             
-            for (const col of emptyCells) {
-                const gemType = this.getRandomGemType();
-                this.createGem(row, col, gemType);
-                
-                const gem = this.grid[row][col];
-                const targetX = (col - this.cols / 2) * this.gemSize + this.gemSize / 2;
-                const startX = (this.cols / 2 + 3) * this.gemSize;
-                gem.setPosition(startX, gem.position.y, 0);
-                
-                promises.push(this.animateGemToGridPosition(gem, row, col));
-            }
+            const gemComp = gem.getComponent(Gem);
+            gemComp.row = move.toRow;
+            gemComp.col = move.toCol;
+            
+            const scale = gem.scale.clone();
+            return this.animator.play(gem, [
+                { name: 'shuffleShrink', props: { scale: new Vec3(scale.x * 0.7, scale.y * 0.7, 1) } },
+                { name: 'shuffleFly', props: { position: this.getCellPosition(move.toRow, move.toCol) } },
+                { name: 'shuffleRestore', props: { scale } }
+            ]);
+        });
+        
+        return this.animator.all(promises);
+    }
+    
+    private replaceGemNodes(cells: CellPosition[]): Promise<void> {
+        const promises = cells.map(({ row, col }) => {
+            this.gemPool.release(this.grid[row][col]);
+            this.createGem(row, col, this.board.getType(row, col), this.board.getSpecial(row, col));
+            
+            const gem = this.grid[row][col];
+            const scale = gem.scale.clone();
+            gem.setScale(0, 0, 1);
+            
+            return this.animator.play(gem, [{ name: 'appear', props: { scale } }]);
+        });
+        
+        return this.animator.all(promises);
+    }
+    
+    /**
+     * CHECK LEVEL RESULT
+     * Runs once a turn has fully settled (cascades and shuffle done)
+     * Fails when the move budget is spent, or when no swap is possible
+     * and no rotations remain
+     */
+    private checkLevelResult() {
+        if (this.isGameOver) return;
+        
+        const isStuck = this.getAvailableRotations() <= 0 && !this.matchValidator.hasValidMoves();
+        const isTimeUp = !!this.timeAttack && this.timeAttack.isExpired();
+        const outOfResources = this.isOutOfMoves() || isStuck || isTimeUp;
+        // A time-attack level without objectives is a score run: lasting to the end completes it
+        const status = this.objectiveTracker.evaluate(outOfResources, !!this.timeAttack);
+        if (status === 'playing') return;
+        
+        this.isGameOver = true;
+        this.clearSavedGame();
+        const result = this.objectiveTracker.getResult();
+        
+        if (this.timeAttack) {
+            const timeAttackResult = this.timeAttack.finish(this.score, status === 'complete' && this.objectiveTracker.hasObjectives());
+            this.setScore(timeAttackResult.finalScore);
+            result.score = timeAttackResult.finalScore;
+            result.timeAttack = timeAttackResult;
+            console.log(`⏱️ Time attack: ${timeAttackResult.baseScore} + ${timeAttackResult.timeBonus} time bonus (${timeAttackResult.timeLeft}s left)`);
         }
         
-        return promises;
+        console.log(`🏁 Level ${status} with score ${result.score}`);
+        
+        const poolStats = this.gemPool.getStats();
+        console.log(`♻️ Gem pool: ${poolStats.created} created, ${poolStats.reused} reused, peak ${poolStats.peakActive} active`);
+        
+        this.events.emit('gameOver', result);
+    }
+    
+    private isOutOfMoves(): boolean {
+        return this.moveLimit > 0 && this.remainingMoves <= 0;
     }
     
-    private fillFromBottom(): Promise<void>[] {
-        const promises = [];
+    /**
+     * GET AVAILABLE ROTATIONS
+     * Rotations the player can still make: the rotation budget, or what
+     * the clock can pay for in time attack
+     */
+    private getAvailableRotations(): number {
+        if (this.timeAttack) return this.timeAttack.affordableRotations();
+        // Rotations lock once the move budget is spent
+        return this.isOutOfMoves() ? 0 : this.remainingRotations;
+    }
+    
+    /**
+     * ADD TIME BONUS
+     * Cascades and big matches put seconds back on the time-attack clock
+     */
+    private addTimeBonus(wave: WaveScore) {
+        if (!this.timeAttack) return;
         
-        for (let col = 0; col < this.cols; col++) {
-            const emptyCells: number[] = [];
-            for (let row = 0; row < this.rows; row++) {
-                if (this.isPlayableCell(row, col) && !this.grid[row][col]) {
-                    emptyCells.push(row);
-                }
-            }
-            
-            for (const row of emptyCells) {
-                const gemType = this.getRandomGemType();
-                this.createGem(row, col, gemType);
-                
-                const gem = this.grid[row][col];
-                const targetY = (row - this.rows / 2) * this.gemSize + this.gemSize / 2;
-                const startY = -(this.rows / 2 + 3) * this.gemSize;
-                gem.setPosition(gem.position.x, startY, 0);
-                
-                promises.push(this.animateGemToGridPosition(gem, row, col));
-            }
+        const seconds = this.timeAttack.addWaveBonus(wave);
+        if (seconds > 0) {
+            console.log(`⏱️ +${seconds}s`);
+            this.updateTimerDisplay();
         }
+    }
+    
+    /**
+     * UNDO
+     * Restores the state before the last swap or rotation
+     * Limited by the level undo allowance; unavailable after game over
+     * and in time attack, whose clock the snapshots don't rewind
+     */
+    undo(): boolean {
+        if (this.isProcessing || this.isGameOver || this.timeAttack || !this.history) return false;
+        
+        const snapshot = this.history.undo();
+        if (!snapshot) return false;
         
-        return promises;
+        this.restoreSnapshot(snapshot);
+        this.saveGame();
+        console.log(`↩️ Undo (remaining: ${this.history.getRemainingUndos()})`);
+        return true;
     }
     
-    private fillFromLeft(): Promise<void>[] {
-        const promises = [];
+    /**
+     * REDO
+     * Re-applies the last undone command
+     */
+    redo(): boolean {
+        if (this.isProcessing || this.isGameOver || this.timeAttack || !this.history) return false;
         
-        for (let row = 0; row < this.rows; row++) {
-            const emptyCells: number[] = [];
-            for (let col = 0; col < this.cols; col++) {
-                if (this.isPlayableCell(row, col) && !this.grid[row][col]) {
-                    emptyCells.push(col);
-                }
-            }
-            
-            for (const col of emptyCells) {
-                const gemType = this.getRandomGemType();
-                this.createGem(row, col, gemType);
-                
-                const gem = this.grid[row][col];
-                const targetX = (col - this.cols / 2) * this.gemSize + this.gemSize / 2;
-                const startX = -(this.cols / 2 + 3) * this.gemSize;
-                gem.setPosition(startX, gem.position.y, 0);
-                
-                promises.push(this.animateGemToGridPosition(gem, row, col));
-            }
+        const snapshot = this.history.redo();
+        if (!snapshot) return false;
+        
+        this.restoreSnapshot(snapshot);
+        this.saveGame();
+        console.log('↪️ Redo');
+        return true;
+    }
+    
+    getHistory(): MoveHistory {
+        return this.history;
+    }
+    
+    private recordHistory(command: HistoryCommand) {
+        this.history.record(command, this.createSnapshot());
+        this.saveGame();
+    }
+    
+    /**
+     * SAVE KEY
+     * One save slot per level
+     */
+    private getSaveKey(): string {
+        return `match3.save.${this.level.id || 'default'}`;
+    }
+    
+    private saveGame() {
+        if (!this.enableSaveResume || this.timeAttack) return;
+        sys.localStorage.setItem(this.getSaveKey(), serializeGame(this.level.id, this.random.seed, this.createSnapshot()));
+    }
+    
+    private loadSavedGame(): SavedGame | null {
+        const json = sys.localStorage.getItem(this.getSaveKey());
+        if (!json) return null;
+        
+        const savedGame = deserializeGame(json, this.level.id, this.level.pattern);
+        if (!savedGame) {
+            console.warn('Saved game does not match this level, discarding');
+            this.clearSavedGame();
         }
+        return savedGame;
+    }
+    
+    private clearSavedGame() {
+        sys.localStorage.removeItem(this.getSaveKey());
+    }
+    
+    private createSnapshot(): GameSnapshot {
+        return {
+            board: this.board.clone(),
+            score: this.score,
+            rotationAngle: this.rotationAngle,
+            remainingRotations: this.remainingRotations,
+            remainingMoves: this.remainingMoves,
+            randomState: this.random.getState(),
+            objectives: this.objectiveTracker.getProgress()
+        };
+    }
+    
+    /**
+     * RESTORE SNAPSHOT
+     * Copies a snapshot into the live model and rebuilds the view
+     */
+    private restoreSnapshot(snapshot: GameSnapshot) {
+        this.resetHintTimer();
+        if (this.selectedGem) {
+            this.highlightGem(this.selectedGem, false);
+            this.selectedGem = null;
+        }
+        
+        this.board.copyFrom(snapshot.board);
+        this.setScore(snapshot.score);
+        this.rotationAngle = snapshot.rotationAngle;
+        this.remainingRotations = snapshot.remainingRotations;
+        this.remainingMoves = snapshot.remainingMoves;
+        this.random.setState(snapshot.randomState);
+        this.objectiveTracker.restore(snapshot.objectives, snapshot.score);
         
-        return promises;
+        this.gridContainer.eulerAngles = new Vec3(0, 0, this.rotationAngle);
+        if (this.gridBackground) {
+            this.gridBackground.eulerAngles = new Vec3(0, 0, this.rotationAngle);
+        }
+        this.refreshGridBackground();
+        this.clearGrid();
+        this.buildGridView();
+        
+        this.updateScore();
+        this.updateRotationsDisplay();
+        this.updateMovesDisplay();
+        this.updateObjectivesDisplay();
     }
     
-    private isPlayableCell(row: number, col: number): boolean {
-        return this.playablePattern[row] && this.playablePattern[row][col] === 1;
+    /**
+     * SET EDITOR MODE
+     * Entering clears the gems and turns the grid cells into paint buttons
+     * that cycle the cell type; leaving validates the pattern and starts a
+     * new game on it (an invalid pattern keeps the editor open)
+     */
+    setEditorMode(enabled: boolean) {
+        if (enabled === !!this.patternEditor) return;
+        
+        if (enabled) {
+            if (this.isProcessing) return;
+            this.enterEditor();
+        } else {
+            this.exitEditor();
+        }
     }
     
-    private animateGemToGridPosition(gem: Node, row: number, col: number): Promise<void> {
-        return new Promise((resolve) => {
-            const x = (col - this.cols / 2) * this.gemSize + this.gemSize / 2;
-            const y = (row - this.rows / 2) * this.gemSize + this.gemSize / 2;
-            
-            tween(gem)
-                .to(0.2, { position: new Vec3(x, y, 0) })
-                .call(() => resolve())
-                .start();
-        });
+    isEditing(): boolean {
+        return !!this.patternEditor;
     }
     
-    private async checkAndShuffleIfNoMoves() {
-        if (this.enableAutoShuffle && !this.matchValidator.hasValidMoves()) {
-            console.log('⚠️ No valid moves, shuffling...');
-            await this.shuffleBoard();
+    setEditorSymmetry(symmetry: PatternSymmetry) {
+        this.editorSymmetry = symmetry;
+        if (this.patternEditor) {
+            this.patternEditor.setSymmetry(symmetry);
+            this.updateEditorDisplay();
         }
     }
     
-    private async shuffleBoard() {
-        console.log('🔀 Shuffling board...');
+    resizeEditorPattern(rows: number, cols: number) {
+        if (!this.patternEditor) return;
+        this.patternEditor.resize(rows, cols);
+        this.redrawEditorGrid();
+    }
+    
+    /**
+     * EXPORT PATTERN STRING
+     * Same format as boardPatternString (first line = row 0)
+     */
+    exportPatternString(): string {
+        const pattern = this.patternEditor ? this.patternEditor.toPatternString() : patternToString(this.level.pattern);
+        console.log(`📋 Pattern:\n${pattern}`);
+        return pattern;
+    }
+    
+    /**
+     * EXPORT LEVEL JSON
+     * Current level settings with the edited pattern, ready for a level asset
+     */
+    exportLevelJson(): string {
+        const editor = this.patternEditor || new PatternEditor(this.level.pattern);
+        const json = editor.toLevelJson(this.editorLevel || this.level);
+        console.log(`📋 Level JSON:\n${json}`);
+        return json;
+    }
+    
+    /**
+     * IMPORT PATTERN
+     * Loads a pattern string or level JSON into the editor
+     * Level JSON also replaces the level settings applied on exit
+     */
+    importPattern(text: string): boolean {
+        if (!this.patternEditor) return false;
         
-        const gems: { type: number }[] = [];
-        for (let row = 0; row < this.rows; row++) {
-            for (let col = 0; col < this.cols; col++) {
-                if (this.grid[row][col] && this.playablePattern[row][col] === 1) {
-                    gems.push({ type: this.grid[row][col].getComponent(Gem).type });
-                }
-            }
+        // Without sprites every palette index falls back to a colour
+        const spriteCount = this.gemSpriteFrames && this.gemSpriteFrames.length > 0 ? this.gemSpriteFrames.length : Infinity;
+        
+        try {
+            const level = this.patternEditor.importText(text, spriteCount);
+            if (level) this.editorLevel = level;
+        } catch (error) {
+            console.error(`Pattern import failed: ${error.message}`);
+            return false;
         }
         
-        // Fisher-Yates shuffle
-        for (let i = gems.length - 1; i > 0; i--) {
-            const j = Math.floor(Math.random() * (i + 1));
-            [gems[i], gems[j]] = [gems[j], gems[i]];
+        this.redrawEditorGrid();
+        return true;
+    }
+    
+    private enterEditor() {
+        this.stopHint();
+        this.unschedule(this.showHint);
+        this.unschedule(this.playAutoplayTurn);
+        if (this.selectedGem) {
+            this.highlightGem(this.selectedGem, false);
+            this.selectedGem = null;
         }
         
-        let attempts = 0;
-        while (attempts < 50) {
-            attempts++;
-            let gemIndex = 0;
-            let hasMatch = false;
-            
-            for (let row = 0; row < this.rows; row++) {
-                for (let col = 0; col < this.cols; col++) {
-                    if (this.grid[row][col]) {
-                        this.grid[row][col].destroy();
-                        this.grid[row][col] = null;
-                    }
-                }
-            }
-            
-            for (let row = 0; row < this.rows; row++) {
-                for (let col = 0; col < this.cols; col++) {
-                    if (this.playablePattern[row][col] === 0 || gemIndex >= gems.length) continue;
-                    
-                    const gemType = gems[gemIndex].type;
-                    
-                    if (this.matchValidator.wouldCreateMatch(row, col, gemType)) {
-                        hasMatch = true;
-                        break;
-                    }
-                    
-                    this.createGem(row, col, gemType);
-                    gemIndex++;
-                }
-                if (hasMatch) break;
-            }
-            
-            if (!hasMatch && this.matchValidator.hasValidMoves()) {
-                console.log(`✅ Shuffled successfully`);
-                return;
-            }
-            
-            for (let i = gems.length - 1; i > 0; i--) {
-                const j = Math.floor(Math.random() * (i + 1));
-                [gems[i], gems[j]] = [gems[j], gems[i]];
-            }
+        // Input, hints and autoplay stay blocked while editing
+        this.isProcessing = true;
+        this.clearGrid();
+        
+        this.editorLevel = this.level;
+        this.patternEditor = new PatternEditor(this.level.pattern);
+        this.patternEditor.setSymmetry(this.editorSymmetry as PatternSymmetry);
+        
+        this.rotationAngle = 0;
+        this.gridContainer.eulerAngles = new Vec3(0, 0, 0);
+        if (this.gridBackground) {
+            this.gridBackground.eulerAngles = new Vec3(0, 0, 0);
+        }
+        
+        console.log('✏️ Pattern editor opened');
+        this.redrawEditorGrid();
+    }
+    
+    private exitEditor() {
+        const validation = this.patternEditor.validate(this.editorLevel.palette.length);
+        if (!validation.valid) {
+            console.warn(`⚠️ Pattern is not playable: ${validation.errors.join('; ')}`);
+            this.updateEditorDisplay();
+            return;
+        }
+        
+        const level = this.patternEditor.toLevel(this.editorLevel);
+        this.patternEditor = null;
+        this.editorLevel = null;
+        if (this.editorLabel) {
+            this.editorLabel.string = '';
+        }
+        
+        this.boardPatternString = patternToString(level.pattern);
+        this.clearSavedGame();
+        this.applyLevelDefinition(level);
+        console.log('✏️ Pattern editor closed, starting a new game on the edited pattern');
+        this.buildLevel(null);
+    }
+    
+    /**
+     * REDRAW EDITOR GRID
+     * Rebuilds the background from the edited pattern
+     * The board model is a throwaway view here; exiting rebuilds the level
+     */
+    private redrawEditorGrid() {
+        this.rows = this.patternEditor.getRows();
+        this.cols = this.patternEditor.getCols();
+        this.board = new BoardModel(this.patternEditor.getPattern());
+        this.createGridBackground();
+        
+        const { row, col } = this.cursor.getPosition();
+        if (!this.board.isInside(row, col)) {
+            this.cursor.reset(this.board, () => true);
         }
+        this.updateCursorView();
+        this.updateEditorDisplay();
+    }
+    
+    private onEditorCellClicked(row: number, col: number) {
+        if (!this.patternEditor) return;
+        
+        const painted = this.patternEditor.cycleCell(row, col);
+        this.board = new BoardModel(this.patternEditor.getPattern());
+        for (const cell of painted) {
+            this.drawGridCell(cell.row, cell.col);
+        }
+        this.updateEditorDisplay();
+    }
+    
+    private updateEditorDisplay() {
+        if (!this.patternEditor || !this.editorLabel) return;
+        
+        // Validated with the palette of the level the editor will apply
+        const validation = this.patternEditor.validate(this.editorLevel.palette.length);
+        const lines = [
+            `Editor ${this.patternEditor.getRows()}x${this.patternEditor.getCols()} (symmetry: ${this.patternEditor.getSymmetry()})`,
+            validation.valid
+                ? `${validation.playableCells} cells, ${validation.validMoves} moves`
+                : validation.errors[0],
+            ...validation.warnings
+        ];
+        this.editorLabel.string = lines.join('\n');
+    }
+    
+    /**
+     * SET AUTOPLAY
+     * Turns the bot on or off at runtime
+     */
+    setAutoplay(enabled: boolean) {
+        this.enableAutoplay = enabled;
+        this.applyAnimationSpeed();
+        this.unschedule(this.playAutoplayTurn);
+        this.scheduleAutoplay();
+    }
+    
+    /**
+     * SET ANIMATION SPEED
+     * Switches the animation speed at runtime (e.g. a turbo toggle)
+     * Takes effect from the next animation
+     */
+    setAnimationSpeed(speed: AnimationSpeed) {
+        this.animationSpeed = speed;
+        this.applyAnimationSpeed();
+    }
+    
+    private applyAnimationSpeed() {
+        const speed = this.enableAutoplay ? this.autoplayAnimationSpeed : this.animationSpeed;
+        if (!isAnimationSpeed(speed)) {
+            console.warn(`⚠️ Unknown animation speed "${speed}", using normal`);
+            this.animator.setSpeed('normal');
+            return;
+        }
+        this.animator.setSpeed(speed);
+    }
+    
+    private scheduleAutoplay() {
+        if (this.enableAutoplay && !this.isGameOver) {
+            this.scheduleOnce(this.playAutoplayTurn, this.autoplayDelay);
+        }
+    }
+    
+    /**
+     * PLAY AUTOPLAY TURN
+     * Asks the bot for a move and plays it through the normal input path
+     */
+    private playAutoplayTurn() {
+        if (!this.enableAutoplay || this.isProcessing || this.isGameOver) return;
+        
+        const command = this.autoplayBot.chooseCommand({
+            board: this.board,
+            rotationAngle: this.rotationAngle,
+            remainingRotations: this.getAvailableRotations(),
+            objectives: this.objectiveTracker.getProgress()
+        });
+        
+        if (!command) {
+            console.log('🤖 Autoplay: no move available');
+            return;
+        }
+        
+        console.log(`🤖 Autoplay (${this.autoplayBot.getStrategy().name}): ${command.kind}`);
+        
+        if (command.kind === 'swap') {
+            this.swapGems(this.grid[command.from.row][command.from.col], this.grid[command.to.row][command.to.col]);
+        } else {
+            this.rotateBoard(command.degrees);
+        }
+    }
+    
+    /**
+     * RESET HINT TIMER
+     * Clears any visible hint and restarts the idle countdown
+     */
+    private resetHintTimer() {
+        this.stopHint();
+        this.unschedule(this.showHint);
+        if (this.hintDelay > 0 && !this.isGameOver) {
+            this.scheduleOnce(this.showHint, this.hintDelay);
+        }
+    }
+    
+    /**
+     * SHOW HINT
+     * Pulses the two gems of the best swap, or the rotate button
+     * when only a rotation can create a match
+     */
+    private showHint() {
+        if (this.isProcessing || this.isGameOver) return;
+        
+        const canRotate = this.getAvailableRotations() > 0;
+        const hint = this.hintFinder.findHint(this.rotationAngle, canRotate);
+        if (!hint) return;
+        
+        if (hint.kind === 'swap') {
+            const { from, to } = hint.move;
+            this.hintTargets = [this.grid[from.row][from.col], this.grid[to.row][to.col]];
+        } else {
+            this.hintTargets = [hint.degrees < 0 ? this.rotateLeftBtn : this.rotateRightBtn];
+        }
+        this.hintTargets = this.hintTargets.filter(target => !!target);
+        
+        for (const target of this.hintTargets) {
+            this.animator.loop(target, [
+                { name: 'hintPulse', props: { scale: new Vec3(1.15, 1.15, 1) } },
+                { name: 'hintPulse', props: { scale: new Vec3(1, 1, 1) } }
+            ]);
+        }
+    }
+    
+    private stopHint() {
+        for (const target of this.hintTargets) {
+            if (!target.isValid) continue;
+            this.animator.stop(target);
+            const scale = target === this.selectedGem ? 1.2 : 1;
+            target.setScale(scale, scale, 1);
+        }
+        this.hintTargets = [];
     }
     
     private highlightGem(gem: Node, highlight: boolean) {
         const targetScale = highlight ? 1.2 : 1;
-        tween(gem).to(0.1, { scale: new Vec3(targetScale, targetScale, 1) }).start();
+        this.animator.play(gem, [{ name: 'highlight', props: { scale: new Vec3(targetScale, targetScale, 1) } }]);
     }
     
-    private getRandomGemType(): number {
-        return Math.floor(Math.random() * this.gemTypes);
+    /**
+     * SEED
+     * Seed of the current game, for reproducing bug reports
+     */
+    getSeed(): number {
+        return this.random ? this.random.seed : this.randomSeed;
+    }
+    
+    /**
+     * SET SCORE
+     * Single place the score changes, so scoreChanged always fires
+     */
+    private setScore(score: number) {
+        const delta = score - this.score;
+        this.score = score;
+        this.updateScore();
+        if (delta !== 0) this.events.emit('scoreChanged', { score, delta });
     }
     
     private updateScore() {
@@ -738,9 +1901,90 @@ export class Match3Game extends Component {
         }
     }
     
+    private updateObjectivesDisplay() {
+        if (this.objectivesLabel) {
+            this.objectivesLabel.string = this.objectiveTracker.describe();
+        }
+    }
+    
+    /**
+     * CREATE HUD LABELS IF MISSING
+     * Clones the rotations label for the moves and timer labels the
+     * level needs when the scene has none, each in its own slot below it
+     * Runs on every level build, so levels applied from the editor get
+     * them too
+     */
+    private createHudLabelsIfMissing() {
+        if (!this.movesLabel && this.moveLimit > 0) {
+            this.movesLabel = this.cloneHudLabel('MovesLabel', 1);
+        }
+        if (!this.timerLabel && this.timeAttack) {
+            this.timerLabel = this.cloneHudLabel('TimerLabel', 2);
+        }
+    }
+    
+    /**
+     * CLONE HUD LABEL
+     * slot: label heights below rotationsLabel
+     */
+    private cloneHudLabel(name: string, slot: number): Label {
+        if (!this.rotationsLabel) return null;
+        
+        const source = this.rotationsLabel.node;
+        const labelNode = instantiate(source);
+        labelNode.name = name;
+        source.parent.addChild(labelNode);
+        
+        const height = source.getComponent(UITransform)?.height ?? 40;
+        labelNode.setPosition(source.position.x, source.position.y - height * slot, source.position.z);
+        
+        return labelNode.getComponent(Label);
+    }
+    
+    /**
+     * SHOW COMBO POPUP
+     * Flashes the wave points (and multiplier for cascades) on the combo label
+     */
+    private showComboPopup(wave: WaveScore) {
+        if (!this.comboLabel) return;
+        
+        const multiplier = wave.multiplier > 1 ? ` x${wave.multiplier}` : '';
+        this.comboLabel.string = `+${wave.points}${multiplier}`;
+        
+        const labelNode = this.comboLabel.node;
+        labelNode.setScale(0.5, 0.5, 1);
+        this.animator.play(labelNode, [
+            { name: 'comboGrow', props: { scale: new Vec3(1.2, 1.2, 1) } },
+            { name: 'comboSettle', props: { scale: new Vec3(1, 1, 1) } }
+        ]);
+        
+        this.unschedule(this.clearComboPopup);
+        this.scheduleOnce(this.clearComboPopup, 1);
+    }
+    
+    private clearComboPopup() {
+        if (this.comboLabel) {
+            this.comboLabel.string = '';
+        }
+    }
+    
+    private updateMovesDisplay() {
+        if (this.movesLabel) {
+            this.movesLabel.string = this.moveLimit > 0 ? `Moves: ${this.remainingMoves}` : '';
+        }
+    }
+    
     private updateRotationsDisplay() {
         if (this.rotationsLabel) {
-            this.rotationsLabel.string = `Rotations: ${this.remainingRotations}`;
+            this.rotationsLabel.string = this.timeAttack
+                ? `Rotation: -${this.timeAttack.getRotationCost()}s`
+                : `Rotations: ${this.remainingRotations}`;
+        }
+    }
+    
+    private updateTimerDisplay() {
+        if (this.timerLabel) {
+            this.timerLabel.string = this.timeAttack ? `Time: ${this.timeAttack.format()}` : '';
         }
     }
 }
\ No newline at end of file
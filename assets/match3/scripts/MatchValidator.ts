@@ -1,5 +1,49 @@
-import { Node } from 'cc';
-import { Gem } from './Gem';
+import { BoardModel, CellPosition } from './BoardModel';
+
+export type MatchOrientation = 'horizontal' | 'vertical';
+
+/**
+ * MATCH RUN
+ * One maximal straight line of 3+ same-type gems
+ */
+export interface MatchRun {
+    orientation: MatchOrientation;
+    type: number;
+    cells: CellPosition[];
+}
+
+/**
+ * MATCH GROUP
+ * Connected same-type runs forming one match shape
+ * - orientation: 'mixed' when horizontal and vertical runs cross (L/T/+)
+ * - length: length of the longest run in the group
+ * - intersections: cells shared by a horizontal and a vertical run
+ */
+export interface MatchGroup {
+    type: number;
+    orientation: MatchOrientation | 'mixed';
+    length: number;
+    cells: CellPosition[];
+    runs: MatchRun[];
+    intersections: CellPosition[];
+}
+
+/**
+ * SWAP MOVE
+ * A valid swap and the match groups it would create
+ * value: expected value from the evaluator used to rank moves
+ */
+export interface SwapMove {
+    from: CellPosition;
+    to: CellPosition;
+    groups: MatchGroup[];
+    value: number;
+}
+
+export type MoveEvaluator = (groups: MatchGroup[]) => number;
+
+const countMatchedCells: MoveEvaluator = groups =>
+    groups.reduce((sum, group) => sum + group.cells.length, 0);
 
 /**
  * MATCH VALIDATOR
@@ -10,7 +54,12 @@ import { Gem } from './Gem';
  * MATCH DETECTION ALGORITHM:
  * 1. Scan horizontally: Check each row for 3+ consecutive same-type gems
  * 2. Scan vertically: Check each column for 3+ consecutive same-type gems
- * 3. Use Set to avoid duplicate gems in result
+ * 3. Use Set to avoid duplicate cells in result
+ * 
+ * MATCH GROUP ALGORITHM:
+ * 1. Collect maximal runs (findRuns)
+ * 2. Join same-type runs sharing a cell into one group
+ * 3. Record shared cells as intersections
  * 
  * VALID MOVE DETECTION ALGORITHM:
  * 1. Try every possible horizontal swap (adjacent gems in same row)
@@ -20,47 +69,45 @@ import { Gem } from './Gem';
  */
 
 export class MatchValidator {
-    private grid: Node[][];
-    private playablePattern: number[][];
+    private board: BoardModel;
     private rows: number;
     private cols: number;
     
-    constructor(grid: Node[][], playablePattern: number[][], rows: number, cols: number) {
-        this.grid = grid;
-        this.playablePattern = playablePattern;
-        this.rows = rows;
-        this.cols = cols;
+    constructor(board: BoardModel) {
+        this.board = board;
+        this.rows = board.rows;
+        this.cols = board.cols;
     }
     
     /**
      * FIND ALL MATCHES
-     * Returns all gems that are part of a match (3+ in a row/column)
+     * Returns all cells that are part of a match (3+ in a row/column)
      */
-    findAllMatches(): Node[] {
-        const matches = new Set<Node>();
+    findAllMatches(): CellPosition[] {
+        const matches = new Set<number>();
         
         // Horizontal matches
         for (let row = 0; row < this.rows; row++) {
             for (let col = 0; col < this.cols - 2; col++) {
-                if (!this.grid[row][col] || this.playablePattern[row][col] === 0) continue;
+                if (!this.board.hasGem(row, col) || !this.board.isPlayable(row, col)) continue;
                 
-                const type = this.grid[row][col].getComponent(Gem).type;
+                const type = this.board.getType(row, col);
                 let matchLength = 1;
                 
                 // Count consecutive matches
                 for (let i = col + 1; i < this.cols; i++) {
-                    if (this.playablePattern[row][i] === 0) break;
-                    if (this.grid[row][i] && this.grid[row][i].getComponent(Gem).type === type) {
+                    if (!this.board.isPlayable(row, i)) break;
+                    if (this.board.getType(row, i) === type) {
                         matchLength++;
                     } else {
                         break;
                     }
                 }
                 
-                // Add all matched gems
+                // Add all matched cells
                 if (matchLength >= 3) {
                     for (let i = col; i < col + matchLength; i++) {
-                        matches.add(this.grid[row][i]);
+                        matches.add(row * this.cols + i);
                     }
                 }
             }
@@ -69,14 +116,14 @@ export class MatchValidator {
         // Vertical matches
         for (let col = 0; col < this.cols; col++) {
             for (let row = 0; row < this.rows - 2; row++) {
-                if (!this.grid[row][col] || this.playablePattern[row][col] === 0) continue;
+                if (!this.board.hasGem(row, col) || !this.board.isPlayable(row, col)) continue;
                 
-                const type = this.grid[row][col].getComponent(Gem).type;
+                const type = this.board.getType(row, col);
                 let matchLength = 1;
                 
                 for (let i = row + 1; i < this.rows; i++) {
-                    if (this.playablePattern[i][col] === 0) break;
-                    if (this.grid[i][col] && this.grid[i][col].getComponent(Gem).type === type) {
+                    if (!this.board.isPlayable(i, col)) break;
+                    if (this.board.getType(i, col) === type) {
                         matchLength++;
                     } else {
                         break;
@@ -85,13 +132,148 @@ export class MatchValidator {
                 
                 if (matchLength >= 3) {
                     for (let i = row; i < row + matchLength; i++) {
-                        matches.add(this.grid[i][col]);
+                        matches.add(i * this.cols + col);
+                    }
+                }
+            }
+        }
+        
+        return Array.from(matches).map(index => ({
+            row: Math.floor(index / this.cols),
+            col: index % this.cols
+        }));
+    }
+    
+    /**
+     * FIND RUNS
+     * Returns every maximal horizontal and vertical run of 3+ gems
+     * Unlike findAllMatches, keeps the shape of each match
+     */
+    findRuns(): MatchRun[] {
+        const runs: MatchRun[] = [];
+        
+        // Horizontal runs
+        for (let row = 0; row < this.rows; row++) {
+            let col = 0;
+            while (col < this.cols) {
+                const length = this.countRun(row, col, 0, 1);
+                if (length >= 3) {
+                    const cells: CellPosition[] = [];
+                    for (let i = col; i < col + length; i++) {
+                        cells.push({ row, col: i });
+                    }
+                    runs.push({ orientation: 'horizontal', type: this.board.getType(row, col), cells });
+                }
+                col += Math.max(length, 1);
+            }
+        }
+        
+        // Vertical runs
+        for (let col = 0; col < this.cols; col++) {
+            let row = 0;
+            while (row < this.rows) {
+                const length = this.countRun(row, col, 1, 0);
+                if (length >= 3) {
+                    const cells: CellPosition[] = [];
+                    for (let i = row; i < row + length; i++) {
+                        cells.push({ row: i, col });
+                    }
+                    runs.push({ orientation: 'vertical', type: this.board.getType(row, col), cells });
+                }
+                row += Math.max(length, 1);
+            }
+        }
+        
+        return runs;
+    }
+    
+    /**
+     * FIND MATCH GROUPS
+     * Returns every match as a structured group (shape, length, type, crossings)
+     * Scoring, special creation and effects reason about these shapes
+     */
+    findMatchGroups(): MatchGroup[] {
+        const runs = this.findRuns();
+        const groups: MatchGroup[] = [];
+        const visited = new Set<MatchRun>();
+        
+        for (const run of runs) {
+            if (visited.has(run)) continue;
+            
+            const groupRuns: MatchRun[] = [];
+            const stack = [run];
+            visited.add(run);
+            
+            while (stack.length > 0) {
+                const current = stack.pop();
+                groupRuns.push(current);
+                
+                for (const other of runs) {
+                    if (visited.has(other) || other.type !== current.type) continue;
+                    if (this.findSharedCells(current, other).length > 0) {
+                        visited.add(other);
+                        stack.push(other);
                     }
                 }
             }
+            
+            groups.push(this.buildGroup(groupRuns));
+        }
+        
+        return groups;
+    }
+    
+    private buildGroup(runs: MatchRun[]): MatchGroup {
+        const cells = new Map<number, CellPosition>();
+        for (const run of runs) {
+            for (const cell of run.cells) {
+                cells.set(cell.row * this.cols + cell.col, cell);
+            }
+        }
+        
+        const intersections: CellPosition[] = [];
+        for (let i = 0; i < runs.length; i++) {
+            for (let j = i + 1; j < runs.length; j++) {
+                if (runs[i].orientation === runs[j].orientation) continue;
+                intersections.push(...this.findSharedCells(runs[i], runs[j]));
+            }
         }
         
-        return Array.from(matches);
+        const hasHorizontal = runs.some(run => run.orientation === 'horizontal');
+        const hasVertical = runs.some(run => run.orientation === 'vertical');
+        
+        return {
+            type: runs[0].type,
+            orientation: hasHorizontal && hasVertical ? 'mixed' : runs[0].orientation,
+            length: Math.max(...runs.map(run => run.cells.length)),
+            cells: Array.from(cells.values()),
+            runs,
+            intersections
+        };
+    }
+    
+    private findSharedCells(a: MatchRun, b: MatchRun): CellPosition[] {
+        return a.cells.filter(cellA => b.cells.some(cellB => cellA.row === cellB.row && cellA.col === cellB.col));
+    }
+    
+    /**
+     * COUNT RUN
+     * Length of the same-type run starting at (row, col) in the given step direction
+     * Returns 0 for empty or blocked start cells
+     */
+    private countRun(row: number, col: number, rowStep: number, colStep: number): number {
+        if (!this.board.isPlayable(row, col) || !this.board.hasGem(row, col)) return 0;
+        
+        const type = this.board.getType(row, col);
+        let length = 1;
+        let r = row + rowStep;
+        let c = col + colStep;
+        while (this.board.isPlayable(r, c) && this.board.getType(r, c) === type) {
+            length++;
+            r += rowStep;
+            c += colStep;
+        }
+        return length;
     }
     
     /**
@@ -102,27 +284,19 @@ export class MatchValidator {
     wouldCreateMatch(row: number, col: number, gemType: number): boolean {
         // Check horizontal (look at 2 gems to the left)
         if (col >= 2) {
-            const left1 = this.grid[row][col - 1];
-            const left2 = this.grid[row][col - 2];
-            if (left1 && left2) {
-                const type1 = left1.getComponent(Gem)?.type;
-                const type2 = left2.getComponent(Gem)?.type;
-                if (type1 === gemType && type2 === gemType) {
-                    return true;
-                }
+            const type1 = this.board.getType(row, col - 1);
+            const type2 = this.board.getType(row, col - 2);
+            if (type1 === gemType && type2 === gemType) {
+                return true;
             }
         }
         
         // Check vertical (look at 2 gems above)
         if (row >= 2) {
-            const up1 = this.grid[row - 1][col];
-            const up2 = this.grid[row - 2][col];
-            if (up1 && up2) {
-                const type1 = up1.getComponent(Gem)?.type;
-                const type2 = up2.getComponent(Gem)?.type;
-                if (type1 === gemType && type2 === gemType) {
-                    return true;
-                }
+            const type1 = this.board.getType(row - 1, col);
+            const type2 = this.board.getType(row - 2, col);
+            if (type1 === gemType && type2 === gemType) {
+                return true;
             }
         }
         
@@ -155,31 +329,69 @@ export class MatchValidator {
         return false;
     }
     
+    /**
+     * FIND ALL MOVES
+     * Returns every valid swap ranked by expected value (best first)
+     * The default evaluator counts matched cells
+     */
+    findAllMoves(evaluate: MoveEvaluator = countMatchedCells): SwapMove[] {
+        const moves: SwapMove[] = [];
+        
+        const tryMove = (row1: number, col1: number, row2: number, col2: number) => {
+            if (!this.isValidSwap(row1, col1, row2, col2)) return;
+            
+            this.board.swap(row1, col1, row2, col2);
+            const groups = this.findMatchGroups();
+            this.board.swap(row1, col1, row2, col2);
+            
+            moves.push({
+                from: { row: row1, col: col1 },
+                to: { row: row2, col: col2 },
+                groups,
+                value: evaluate(groups)
+            });
+        };
+        
+        for (let row = 0; row < this.rows; row++) {
+            for (let col = 0; col < this.cols; col++) {
+                if (col < this.cols - 1) tryMove(row, col, row, col + 1);
+                if (row < this.rows - 1) tryMove(row, col, row + 1, col);
+            }
+        }
+        
+        return moves.sort((a, b) => b.value - a.value);
+    }
+    
+    /**
+     * FIND BEST MOVE
+     * Highest-value valid swap, or null when the board has none
+     */
+    findBestMove(evaluate: MoveEvaluator = countMatchedCells): SwapMove | null {
+        const moves = this.findAllMoves(evaluate);
+        return moves.length > 0 ? moves[0] : null;
+    }
+    
     /**
      * IS VALID SWAP
      * Returns true if swapping two gems would create a match
      */
-    private isValidSwap(row1: number, col1: number, row2: number, col2: number): boolean {
-        const gem1 = this.grid[row1][col1];
-        const gem2 = this.grid[row2][col2];
-        
-        if (!gem1 || !gem2) return false;
-        if (this.playablePattern[row1][col1] === 0 || this.playablePattern[row2][col2] === 0) return false;
+    isValidSwap(row1: number, col1: number, row2: number, col2: number): boolean {
+        if (!this.board.hasGem(row1, col1) || !this.board.hasGem(row2, col2)) return false;
+        if (!this.board.isPlayable(row1, col1) || !this.board.isPlayable(row2, col2)) return false;
+        if (this.board.isLocked(row1, col1) || this.board.isLocked(row2, col2)) return false;
         
-        const type1 = gem1.getComponent(Gem).type;
-        const type2 = gem2.getComponent(Gem).type;
+        const type1 = this.board.getType(row1, col1);
+        const type2 = this.board.getType(row2, col2);
         
         // Temporarily swap
-        this.grid[row1][col1] = gem2;
-        this.grid[row2][col2] = gem1;
+        this.board.swap(row1, col1, row2, col2);
         
         // Check if either position creates a match
         const match1 = this.checkMatchAtPosition(row1, col1, type2);
         const match2 = this.checkMatchAtPosition(row2, col2, type1);
         
         // Swap back
-        this.grid[row1][col1] = gem1;
-        this.grid[row2][col2] = gem2;
+        this.board.swap(row1, col1, row2, col2);
         
         return match1 || match2;
     }
@@ -187,15 +399,17 @@ export class MatchValidator {
     /**
      * CHECK MATCH AT POSITION
      * Checks if a specific gem type at a position forms a match of 3+
+     * Looks in all four directions, so it also works for refill and
+     * spawn policies (wouldCreateMatch only looks back during generation)
      */
-    private checkMatchAtPosition(row: number, col: number, gemType: number): boolean {
+    checkMatchAtPosition(row: number, col: number, gemType: number): boolean {
         // Check horizontal
         let hCount = 1;
         
         // Count left
         let c = col - 1;
-        while (c >= 0 && this.grid[row][c] && this.playablePattern[row][c] === 1) {
-            if (this.grid[row][c].getComponent(Gem).type === gemType) {
+        while (c >= 0 && this.board.isPlayable(row, c) && this.board.hasGem(row, c)) {
+            if (this.board.getType(row, c) === gemType) {
                 hCount++;
                 c--;
             } else {
@@ -205,8 +419,8 @@ export class MatchValidator {
         
         // Count right
         c = col + 1;
-        while (c < this.cols && this.grid[row][c] && this.playablePattern[row][c] === 1) {
-            if (this.grid[row][c].getComponent(Gem).type === gemType) {
+        while (c < this.cols && this.board.isPlayable(row, c) && this.board.hasGem(row, c)) {
+            if (this.board.getType(row, c) === gemType) {
                 hCount++;
                 c++;
             } else {
@@ -221,8 +435,8 @@ export class MatchValidator {
         
         // Count up
         let r = row - 1;
-        while (r >= 0 && this.grid[r][col] && this.playablePattern[r][col] === 1) {
-            if (this.grid[r][col].getComponent(Gem).type === gemType) {
+        while (r >= 0 && this.board.isPlayable(r, col) && this.board.hasGem(r, col)) {
+            if (this.board.getType(r, col) === gemType) {
                 vCount++;
                 r--;
             } else {
@@ -232,8 +446,8 @@ export class MatchValidator {
         
         // Count down
         r = row + 1;
-        while (r < this.rows && this.grid[r][col] && this.playablePattern[r][col] === 1) {
-            if (this.grid[r][col].getComponent(Gem).type === gemType) {
+        while (r < this.rows && this.board.isPlayable(r, col) && this.board.hasGem(r, col)) {
+            if (this.board.getType(r, col) === gemType) {
                 vCount++;
                 r++;
             } else {
@@ -0,0 +1,105 @@
+import { BoardModel, CellPosition } from './BoardModel';
+import { ObjectiveProgress } from './ObjectiveTracker';
+
+/**
+ * MOVE HISTORY
+ * 
+ * Command history of player turns for undo/redo.
+ * Each entry stores the command (swap or rotation) together with the
+ * full game snapshot after the turn settled, so undo restores exactly
+ * the state before the command without re-simulating anything.
+ * 
+ * UNDO ALLOWANCE:
+ * -1 = unlimited, 0 = undo disabled, N = at most N undos per level
+ * Redo never consumes the allowance.
+ */
+
+export type HistoryCommand =
+    | { kind: 'swap'; from: CellPosition; to: CellPosition }
+    | { kind: 'rotate'; degrees: number };
+
+export interface GameSnapshot {
+    board: BoardModel;
+    score: number;
+    rotationAngle: number;
+    remainingRotations: number;
+    remainingMoves: number;
+    randomState: number;
+    objectives: ObjectiveProgress[];
+}
+
+export interface HistoryEntry {
+    command: HistoryCommand;
+    snapshot: GameSnapshot;
+}
+
+export class MoveHistory {
+    private initial: GameSnapshot;
+    private entries: HistoryEntry[] = [];
+    private cursor: number = 0;
+    private undoAllowance: number;
+    private undosUsed: number = 0;
+    
+    constructor(initial: GameSnapshot, undoAllowance: number = -1) {
+        this.initial = initial;
+        this.undoAllowance = undoAllowance;
+    }
+    
+    /**
+     * RECORD
+     * Adds a settled turn; any redo branch is discarded
+     */
+    record(command: HistoryCommand, snapshot: GameSnapshot) {
+        this.entries.length = this.cursor;
+        this.entries.push({ command, snapshot });
+        this.cursor = this.entries.length;
+    }
+    
+    canUndo(): boolean {
+        return this.cursor > 0 && this.getRemainingUndos() !== 0;
+    }
+    
+    canRedo(): boolean {
+        return this.cursor < this.entries.length;
+    }
+    
+    /**
+     * UNDO
+     * Steps back one command and returns the snapshot to restore
+     */
+    undo(): GameSnapshot | null {
+        if (!this.canUndo()) return null;
+        
+        this.cursor--;
+        this.undosUsed++;
+        return this.cursor > 0 ? this.entries[this.cursor - 1].snapshot : this.initial;
+    }
+    
+    /**
+     * REDO
+     * Re-applies the next command and returns the snapshot to restore
+     */
+    redo(): GameSnapshot | null {
+        if (!this.canRedo()) return null;
+        
+        this.cursor++;
+        return this.entries[this.cursor - 1].snapshot;
+    }
+    
+    /**
+     * REMAINING UNDOS
+     * -1 when unlimited
+     */
+    getRemainingUndos(): number {
+        if (this.undoAllowance < 0) return -1;
+        return Math.max(0, this.undoAllowance - this.undosUsed);
+    }
+    
+    /**
+     * ENTRIES
+     * Commands applied so far (excluding undone ones), oldest first
+     */
+    getEntries(): HistoryEntry[] {
+        return this.entries.slice(0, this.cursor);
+    }
+}
@@ -0,0 +1,170 @@
+import { ObjectiveDefinition } from './LevelDefinition';
+import { TimeAttackResult } from './TimeAttackClock';
+
+/**
+ * OBJECTIVE TRACKER
+ * 
+ * Tracks level objectives as matches resolve and decides whether the
+ * level is complete or failed.
+ * 
+ * OBJECTIVE TYPES:
+ * - score: reach a score of at least target
+ * - collect: clear target gems of gemType
+ * - clearBlockers: clear every blocker on the board (target 0 = all of them)
+ * 
+ * A level with no objectives never completes on its own; it can only
+ * fail when the player runs out of resources, unless surviving counts
+ * as completion (time attack score runs, see evaluate).
+ */
+
+export type LevelStatus = 'playing' | 'complete' | 'failed';
+
+export interface ObjectiveProgress {
+    definition: ObjectiveDefinition;
+    current: number;
+    target: number;
+    completed: boolean;
+}
+
+export interface LevelResult {
+    status: LevelStatus;
+    score: number;
+    objectives: ObjectiveProgress[];
+    timeAttack?: TimeAttackResult;  // end scoring of time-attack levels
+}
+
+export class ObjectiveTracker {
+    private progress: ObjectiveProgress[];
+    private score: number = 0;
+    private status: LevelStatus = 'playing';
+    
+    constructor(objectives: ObjectiveDefinition[], blockerCount: number = 0) {
+        this.progress = objectives.map(definition => ({
+            definition,
+            current: 0,
+            target: definition.type === 'clearBlockers' && definition.target <= 0 ? blockerCount : definition.target,
+            completed: false
+        }));
+        this.refreshCompletion();
+    }
+    
+    getStatus(): LevelStatus {
+        return this.status;
+    }
+    
+    getProgress(): ObjectiveProgress[] {
+        return this.progress.map(item => ({ ...item }));
+    }
+    
+    hasObjectives(): boolean {
+        return this.progress.length > 0;
+    }
+    
+    /**
+     * RESTORE
+     * Puts progress back to an earlier state (undo, resume)
+     */
+    restore(progress: ObjectiveProgress[], score: number) {
+        progress.forEach((item, index) => {
+            if (this.progress[index]) {
+                this.progress[index].current = item.current;
+            }
+        });
+        this.score = score;
+        this.status = 'playing';
+        this.refreshCompletion();
+    }
+    
+    /**
+     * RECORD SCORE
+     * Updates score objectives with the current total score
+     */
+    recordScore(score: number) {
+        this.score = score;
+        for (const item of this.progress) {
+            if (item.definition.type === 'score') {
+                item.current = Math.min(score, item.target);
+            }
+        }
+        this.refreshCompletion();
+    }
+    
+    /**
+     * RECORD CLEARED GEMS
+     * Counts cleared gem types toward collect objectives
+     */
+    recordClearedGems(types: number[]) {
+        for (const item of this.progress) {
+            if (item.definition.type !== 'collect') continue;
+            const count = types.filter(type => type === item.definition.gemType).length;
+            item.current = Math.min(item.current + count, item.target);
+        }
+        this.refreshCompletion();
+    }
+    
+    /**
+     * RECORD CLEARED BLOCKERS
+     * Counts destroyed blockers toward clearBlockers objectives
+     */
+    recordClearedBlockers(count: number) {
+        for (const item of this.progress) {
+            if (item.definition.type === 'clearBlockers') {
+                item.current = Math.min(item.current + count, item.target);
+            }
+        }
+        this.refreshCompletion();
+    }
+    
+    /**
+     * EVALUATE
+     * Settles the level status after a turn
+     * outOfResources: the player can no longer act (no moves/rotations left)
+     * survivalCompletes: without objectives, running out completes the level
+     * Completion wins over failure when both happen on the same turn
+     */
+    evaluate(outOfResources: boolean, survivalCompletes: boolean = false): LevelStatus {
+        if (this.status !== 'playing') return this.status;
+        
+        if (this.hasObjectives() && this.progress.every(item => item.completed)) {
+            this.status = 'complete';
+        } else if (outOfResources) {
+            this.status = survivalCompletes && !this.hasObjectives() ? 'complete' : 'failed';
+        }
+        
+        return this.status;
+    }
+    
+    getResult(): LevelResult {
+        return {
+            status: this.status,
+            score: this.score,
+            objectives: this.getProgress()
+        };
+    }
+    
+    /**
+     * DESCRIBE
+     * One line per objective for HUD labels
+     */
+    describe(): string {
+        return this.progress.map(item => {
+            const { definition, current, target } = item;
+            const mark = item.completed ? '✓ ' : '';
+            switch (definition.type) {
+                case 'score':
+                    return `${mark}Score ${current}/${target}`;
+                case 'collect':
+                    return `${mark}Collect gem ${definition.gemType}: ${current}/${target}`;
+                case 'clearBlockers':
+                    return `${mark}Blockers ${current}/${target}`;
+            }
+            return '';
+        }).join('\n');
+    }
+    
+    private refreshCompletion() {
+        for (const item of this.progress) {
+            item.completed = item.current >= item.target;
+        }
+    }
+}
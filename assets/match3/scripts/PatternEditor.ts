@@ -0,0 +1,244 @@
+import { BoardModel, CellPosition, CellType } from './BoardModel';
+import { BoardGenerator } from './BoardGenerator';
+import { MatchValidator } from './MatchValidator';
+import { SeededRandom } from './Random';
+import { LevelDefinition, LevelFormatError, parseLevelDefinition, parsePatternString, patternToString, serializeLevelDefinition } from './LevelDefinition';
+
+/**
+ * PATTERN EDITOR
+ * 
+ * Headless model behind the in-scene pattern editor: the cell type grid
+ * a designer paints, with mirror symmetry, resizing, validation and
+ * import/export of pattern strings and level JSON.
+ * 
+ * Clicking a cell cycles it through every CellType in code order
+ * (blocked, playable, ice, chain, stone, jelly); new types added to
+ * CellType join the cycle automatically.
+ * 
+ * SYMMETRY:
+ * - none:       only the clicked cell
+ * - leftRight:  also the cell mirrored across the vertical axis
+ * - topBottom:  also the cell mirrored across the horizontal axis
+ * - both:       all four mirrored cells
+ */
+
+export type PatternSymmetry = 'none' | 'leftRight' | 'topBottom' | 'both';
+
+export interface PatternValidation {
+    valid: boolean;
+    errors: string[];
+    warnings: string[];
+    playableCells: number;
+    validMoves: number;     // swaps available on a generated board
+}
+
+export const PATTERN_MIN_SIZE = 3;
+export const PATTERN_MAX_SIZE = 16;
+const FEW_MOVES_WARNING = 3;
+
+export const CELL_TYPE_CYCLE: number[] = Object.keys(CellType)
+    .map(key => CellType[key as keyof typeof CellType])
+    .filter(value => typeof value === 'number')
+    .sort((a, b) => a - b);
+
+export class PatternEditor {
+    private pattern: number[][];
+    private symmetry: PatternSymmetry = 'none';
+    
+    constructor(pattern: number[][]) {
+        this.pattern = pattern.map(row => row.slice());
+    }
+    
+    getPattern(): number[][] {
+        return this.pattern.map(row => row.slice());
+    }
+    
+    getRows(): number {
+        return this.pattern.length;
+    }
+    
+    getCols(): number {
+        return this.pattern.length > 0 ? this.pattern[0].length : 0;
+    }
+    
+    getCell(row: number, col: number): number {
+        return this.pattern[row][col];
+    }
+    
+    getSymmetry(): PatternSymmetry {
+        return this.symmetry;
+    }
+    
+    setSymmetry(symmetry: PatternSymmetry) {
+        this.symmetry = symmetry;
+    }
+    
+    /**
+     * CYCLE CELL
+     * Advances the cell to the next type and paints its mirrors the same
+     * Returns every cell that was painted
+     */
+    cycleCell(row: number, col: number): CellPosition[] {
+        const index = CELL_TYPE_CYCLE.indexOf(this.pattern[row][col]);
+        const next = CELL_TYPE_CYCLE[(index + 1) % CELL_TYPE_CYCLE.length];
+        return this.paintCell(row, col, next);
+    }
+    
+    /**
+     * PAINT CELL
+     * Sets the cell and its mirrors to the given type
+     */
+    paintCell(row: number, col: number, type: number): CellPosition[] {
+        const cells = this.getMirroredCells(row, col);
+        for (const cell of cells) {
+            this.pattern[cell.row][cell.col] = type;
+        }
+        return cells;
+    }
+    
+    /**
+     * RESIZE
+     * Keeps existing cells by index and fills new ones as playable
+     */
+    resize(rows: number, cols: number) {
+        rows = Math.max(PATTERN_MIN_SIZE, Math.min(PATTERN_MAX_SIZE, Math.floor(rows)));
+        cols = Math.max(PATTERN_MIN_SIZE, Math.min(PATTERN_MAX_SIZE, Math.floor(cols)));
+        
+        const resized: number[][] = [];
+        for (let row = 0; row < rows; row++) {
+            resized[row] = [];
+            for (let col = 0; col < cols; col++) {
+                const existing = this.pattern[row] !== undefined ? this.pattern[row][col] : undefined;
+                resized[row][col] = existing !== undefined ? existing : CellType.NORMAL;
+            }
+        }
+        this.pattern = resized;
+    }
+    
+    /**
+     * VALIDATE
+     * Checks the pattern leaves room for matches, then generates a board
+     * with MatchValidator rules and counts the swaps a player would have
+     */
+    validate(gemTypes: number, seed: number = 1): PatternValidation {
+        const errors: string[] = [];
+        const warnings: string[] = [];
+        
+        const board = new BoardModel(this.pattern);
+        let playableCells = 0;
+        for (let row = 0; row < this.getRows(); row++) {
+            for (let col = 0; col < this.getCols(); col++) {
+                if (board.isPlayable(row, col)) playableCells++;
+            }
+        }
+        
+        if (playableCells === 0) {
+            errors.push('Pattern has no playable cells');
+        } else if (!this.hasLineOfThree(board)) {
+            errors.push('No three playable cells in a row or column, so no match is possible');
+        }
+        
+        let validMoves = 0;
+        if (errors.length === 0) {
+            const validator = new MatchValidator(board);
+            new BoardGenerator(board, validator, gemTypes, new SeededRandom(seed)).generate();
+            validMoves = validator.findAllMoves().length;
+            
+            if (validMoves === 0) {
+                errors.push('Generated board has no valid move; open up more space');
+            } else if (validMoves < FEW_MOVES_WARNING) {
+                warnings.push(`Only ${validMoves} valid move${validMoves === 1 ? '' : 's'} on a generated board`);
+            }
+        }
+        
+        return { valid: errors.length === 0, errors, warnings, playableCells, validMoves };
+    }
+    
+    toPatternString(): string {
+        return patternToString(this.pattern);
+    }
+    
+    /**
+     * TO LEVEL
+     * The base level with this pattern; cell features and spawners that
+     * now fall outside the pattern or on blocked cells are dropped
+     */
+    toLevel(base: LevelDefinition): LevelDefinition {
+        const isOpen = (row: number, col: number) =>
+            row < this.getRows() && col < this.getCols() && this.pattern[row][col] !== CellType.BLOCKED;
+        
+        return {
+            ...base,
+            pattern: this.getPattern(),
+            cellFeatures: base.cellFeatures.filter(feature => isOpen(feature.row, feature.col)),
+            spawners: base.spawners.filter(spawner => isOpen(spawner.row, spawner.col))
+        };
+    }
+    
+    toLevelJson(base: LevelDefinition): string {
+        return JSON.stringify(serializeLevelDefinition(this.toLevel(base)), null, 2);
+    }
+    
+    /**
+     * IMPORT TEXT
+     * Accepts a pattern string or level JSON
+     * spriteCount: sprites available to the level palette (Infinity = any)
+     * Returns the parsed level for JSON input, null for a pattern string;
+     * the pattern is clamped to the editor size limits like resize()
+     * Throws LevelFormatError / SyntaxError on invalid JSON levels and
+     * palettes pointing past spriteCount, leaving the pattern unchanged
+     */
+    importText(text: string, spriteCount: number = Infinity): LevelDefinition | null {
+        let level: LevelDefinition = null;
+        let pattern: number[][];
+        
+        if (text.trim().charAt(0) === '{') {
+            level = parseLevelDefinition(JSON.parse(text));
+            const missing = level.palette.filter(index => index >= spriteCount);
+            if (missing.length > 0) {
+                throw new LevelFormatError(`Level palette uses sprites ${missing.join(', ')}, only ${spriteCount} available`);
+            }
+            pattern = level.pattern;
+        } else {
+            pattern = parsePatternString(text);
+        }
+        
+        this.pattern = pattern.map(row => row.slice());
+        this.resize(this.getRows(), this.getCols());
+        return level;
+    }
+    
+    private getMirroredCells(row: number, col: number): CellPosition[] {
+        const mirrorRow = this.getRows() - 1 - row;
+        const mirrorCol = this.getCols() - 1 - col;
+        
+        const cells = [{ row, col }];
+        if (this.symmetry === 'leftRight' || this.symmetry === 'both') {
+            cells.push({ row, col: mirrorCol });
+        }
+        if (this.symmetry === 'topBottom' || this.symmetry === 'both') {
+            cells.push({ row: mirrorRow, col });
+        }
+        if (this.symmetry === 'both') {
+            cells.push({ row: mirrorRow, col: mirrorCol });
+        }
+        
+        // Center lines mirror onto themselves
+        return cells.filter((cell, index) =>
+            cells.findIndex(other => other.row === cell.row && other.col === cell.col) === index
+        );
+    }
+    
+    private hasLineOfThree(board: BoardModel): boolean {
+        for (let row = 0; row < this.getRows(); row++) {
+            for (let col = 0; col < this.getCols(); col++) {
+                if (!board.isPlayable(row, col)) continue;
+                
+                const horizontal = col + 2 < this.getCols() && board.isPlayable(row, col + 1) && board.isPlayable(row, col + 2);
+                const vertical = row + 2 < this.getRows() && board.isPlayable(row + 1, col) && board.isPlayable(row + 2, col);
+                if (horizontal || vertical) return true;
+            }
+        }
+        return false;
+    }
+}
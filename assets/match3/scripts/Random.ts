@@ -0,0 +1,86 @@
+/**
+ * RANDOM
+ * 
+ * Pluggable random number sources for the Match-3 game.
+ * Every random decision (initial generation, refills, shuffles) goes
+ * through a RandomSource, so a seeded source makes a game reproducible:
+ * the same seed plus the same moves always gives the same board.
+ */
+
+export interface RandomSource {
+    /**
+     * Returns a float in [0, 1)
+     */
+    next(): number;
+}
+
+/**
+ * SEEDED RANDOM
+ * Mulberry32 PRNG: small, fast and deterministic across platforms
+ */
+export class SeededRandom implements RandomSource {
+    readonly seed: number;
+    private state: number;
+    
+    constructor(seed: number) {
+        this.seed = seed >>> 0;
+        this.state = this.seed;
+    }
+    
+    next(): number {
+        this.state = (this.state + 0x6D2B79F5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+    
+    /**
+     * STATE
+     * Internal state, so a sequence can be resumed mid-game
+     */
+    getState(): number {
+        return this.state;
+    }
+    
+    setState(state: number) {
+        this.state = state >>> 0;
+    }
+}
+
+/**
+ * MATH RANDOM
+ * Unseeded source backed by Math.random()
+ */
+export const mathRandom: RandomSource = {
+    next: () => Math.random()
+};
+
+/**
+ * CREATE SEED
+ * Picks a fresh non-zero 32-bit seed when none is configured
+ * (0 is reserved for "no seed" in component properties)
+ */
+export function createSeed(): number {
+    return (Math.floor(Math.random() * 4294967295) + 1) >>> 0;
+}
+
+/**
+ * RANDOM INT
+ * Integer in [0, max)
+ */
+export function randomInt(random: RandomSource, max: number): number {
+    return Math.floor(random.next() * max);
+}
+
+/**
+ * SHUFFLE IN PLACE
+ * Fisher-Yates shuffle driven by the given source
+ */
+export function shuffleInPlace<T>(random: RandomSource, items: T[]): T[] {
+    for (let i = items.length - 1; i > 0; i--) {
+        const j = randomInt(random, i + 1);
+        [items[i], items[j]] = [items[j], items[i]];
+    }
+    return items;
+}
@@ -0,0 +1,170 @@
+import { MatchGroup } from './MatchValidator';
+
+/**
+ * SCORE MODEL
+ * 
+ * Turns resolved matches into points and a per-turn breakdown.
+ * 
+ * SCORING RULES:
+ * 1. Every matched gem is worth pointsPerGem
+ * 2. Long matches add a length bonus (4 and 5+ in a line)
+ * 3. Crossing matches (L/T/+) add a shape bonus
+ * 4. Gems cleared by special gem effects are worth pointsPerGem each
+ * 5. Each cascade wave multiplies its points by the cascade multiplier:
+ *    wave 1 = x1, wave 2 = x1.5, wave 3 = x2 ... capped at maxCascadeMultiplier
+ * 6. Matches caused by a rotation (instead of a swap) get rotationMultiplier
+ * 7. A wave that scores nothing (it only broke chains) does not deepen
+ *    the cascade
+ * 
+ * USAGE (one turn = one swap or one rotation):
+ * beginTurn(source) -> scoreWave() per cascade wave -> endTurn()
+ */
+
+export type TurnSource = 'swap' | 'rotation';
+
+export interface ScoreConfig {
+    pointsPerGem: number;
+    lengthBonus: { [length: number]: number };
+    shapeBonus: number;
+    cascadeMultiplierStep: number;
+    maxCascadeMultiplier: number;
+    rotationMultiplier: number;
+}
+
+export const DEFAULT_SCORE_CONFIG: ScoreConfig = {
+    pointsPerGem: 10,
+    lengthBonus: { 4: 20, 5: 50 },
+    shapeBonus: 40,
+    cascadeMultiplierStep: 0.5,
+    maxCascadeMultiplier: 5,
+    rotationMultiplier: 1.5
+};
+
+export interface GroupScore {
+    type: number;
+    length: number;
+    orientation: MatchGroup['orientation'];
+    gemPoints: number;
+    lengthBonus: number;
+    shapeBonus: number;
+}
+
+export interface WaveScore {
+    cascadeDepth: number;
+    multiplier: number;
+    groups: GroupScore[];
+    effectPoints: number;
+    points: number;
+}
+
+export interface TurnScoreBreakdown {
+    source: TurnSource;
+    waves: WaveScore[];
+    maxCascadeDepth: number;
+    total: number;
+}
+
+export class ScoreModel {
+    private config: ScoreConfig;
+    private source: TurnSource = 'swap';
+    private waves: WaveScore[] = [];
+    
+    constructor(config: Partial<ScoreConfig> = {}) {
+        this.config = { ...DEFAULT_SCORE_CONFIG, ...config };
+    }
+    
+    beginTurn(source: TurnSource) {
+        this.source = source;
+        this.waves = [];
+    }
+    
+    /**
+     * SCORE WAVE
+     * Scores one cascade wave
+     * clearedCount includes gems cleared by special effects, so any
+     * cleared gem not part of a match group counts as an effect clear
+     */
+    scoreWave(groups: MatchGroup[], clearedCount: number): WaveScore {
+        const cascadeDepth = this.waves.length + 1;
+        const { pointsPerGem } = this.config;
+        
+        const groupScores = this.scoreGroups(groups);
+        
+        const matchedCount = groups.reduce((sum, group) => sum + group.cells.length, 0);
+        const effectPoints = Math.max(0, clearedCount - matchedCount) * pointsPerGem;
+        
+        const basePoints = groupScores.reduce(
+            (sum, group) => sum + group.gemPoints + group.lengthBonus + group.shapeBonus,
+            effectPoints
+        );
+        
+        const multiplier = this.getMultiplier(cascadeDepth);
+        const wave: WaveScore = {
+            cascadeDepth,
+            multiplier,
+            groups: groupScores,
+            effectPoints,
+            points: Math.round(basePoints * multiplier)
+        };
+        
+        if (groups.length > 0 || clearedCount > 0) {
+            this.waves.push(wave);
+        }
+        return wave;
+    }
+    
+    /**
+     * END TURN
+     * Returns the breakdown of every wave scored since beginTurn
+     */
+    endTurn(): TurnScoreBreakdown {
+        const breakdown: TurnScoreBreakdown = {
+            source: this.source,
+            waves: this.waves,
+            maxCascadeDepth: this.waves.length,
+            total: this.waves.reduce((sum, wave) => sum + wave.points, 0)
+        };
+        this.waves = [];
+        return breakdown;
+    }
+    
+    /**
+     * EVALUATE GROUPS
+     * Base points (no cascade or rotation multiplier) of the given groups
+     * Used to rank candidate moves without touching turn state
+     */
+    evaluateGroups(groups: MatchGroup[]): number {
+        return this.scoreGroups(groups).reduce(
+            (sum, group) => sum + group.gemPoints + group.lengthBonus + group.shapeBonus,
+            0
+        );
+    }
+    
+    private scoreGroups(groups: MatchGroup[]): GroupScore[] {
+        return groups.map(group => ({
+            type: group.type,
+            length: group.length,
+            orientation: group.orientation,
+            gemPoints: group.cells.length * this.config.pointsPerGem,
+            lengthBonus: this.getLengthBonus(group.length),
+            shapeBonus: group.orientation === 'mixed' ? this.config.shapeBonus : 0
+        }));
+    }
+    
+    private getLengthBonus(length: number): number {
+        const lengths = Object.keys(this.config.lengthBonus).map(Number).sort((a, b) => b - a);
+        for (const threshold of lengths) {
+            if (length >= threshold) return this.config.lengthBonus[threshold];
+        }
+        return 0;
+    }
+    
+    private getMultiplier(cascadeDepth: number): number {
+        const cascade = Math.min(
+            1 + (cascadeDepth - 1) * this.config.cascadeMultiplierStep,
+            this.config.maxCascadeMultiplier
+        );
+        const source = this.source === 'rotation' ? this.config.rotationMultiplier : 1;
+        return cascade * source;
+    }
+}
@@ -0,0 +1,161 @@
+import { BoardModel } from './BoardModel';
+import { MatchValidator } from './MatchValidator';
+import { RandomSource } from './Random';
+import { SpawnPolicyDefinition } from './LevelDefinition';
+
+/**
+ * SPAWN POLICY
+ * 
+ * Decides the type of every gem that enters the board during refill,
+ * so levels can tune how often cascades and dead boards happen.
+ * 
+ * POLICIES (level "spawnPolicy.type"):
+ * - uniform:    every gem type equally likely (default)
+ * - weighted:   types drawn by "weights", one weight per palette entry
+ * - avoidMatch: never spawns a type that completes a match in place
+ * - assist:     when the board has "threshold" moves or fewer, prefers
+ *               types that add a valid swap
+ * - hard:       avoids matches and prefers types that add no new swap,
+ *               as long as the board keeps at least one move
+ * 
+ * Every policy draws its candidates in weighted random order, so
+ * "weights" also bias the avoidMatch, assist and hard policies.
+ * Types are picked once the refill has settled, when each new gem sits
+ * in its final cell (see SpawnerManager).
+ */
+
+export interface SpawnContext {
+    board: BoardModel;
+    validator: MatchValidator;
+    random: RandomSource;
+    gemTypes: number;
+}
+
+export interface SpawnPolicy {
+    pickType(row: number, col: number, context: SpawnContext): number;
+}
+
+/**
+ * WEIGHTED ORDER
+ * All gem types in weighted random order without replacement
+ * Missing or non-positive weights count as 1
+ */
+export function weightedOrder(random: RandomSource, gemTypes: number, weights: number[] = []): number[] {
+    const pool: number[] = [];
+    for (let type = 0; type < gemTypes; type++) {
+        pool.push(type);
+    }
+    
+    const order: number[] = [];
+    while (pool.length > 0) {
+        const total = pool.reduce((sum, type) => sum + getWeight(weights, type), 0);
+        let roll = random.next() * total;
+        
+        let index = 0;
+        while (index < pool.length - 1 && roll >= getWeight(weights, pool[index])) {
+            roll -= getWeight(weights, pool[index]);
+            index++;
+        }
+        
+        order.push(pool[index]);
+        pool.splice(index, 1);
+    }
+    
+    return order;
+}
+
+function getWeight(weights: number[], type: number): number {
+    const weight = weights[type];
+    return weight > 0 ? weight : 1;
+}
+
+function createsMatch(row: number, col: number, type: number, context: SpawnContext): boolean {
+    return context.validator.checkMatchAtPosition(row, col, type);
+}
+
+/**
+ * COUNT MOVES WITH
+ * Valid swaps on the board if the cell held the given type
+ */
+function countMovesWith(row: number, col: number, type: number, context: SpawnContext): number {
+    const previous = context.board.getGem(row, col);
+    context.board.setGem(row, col, { type });
+    const count = context.validator.findAllMoves().length;
+    context.board.setGem(row, col, previous);
+    return count;
+}
+
+export class WeightedSpawnPolicy implements SpawnPolicy {
+    protected weights: number[];
+    
+    constructor(weights: number[] = []) {
+        this.weights = weights.slice();
+    }
+    
+    pickType(row: number, col: number, context: SpawnContext): number {
+        return this.getCandidates(context)[0];
+    }
+    
+    protected getCandidates(context: SpawnContext): number[] {
+        return weightedOrder(context.random, context.gemTypes, this.weights);
+    }
+}
+
+export class AvoidMatchSpawnPolicy extends WeightedSpawnPolicy {
+    pickType(row: number, col: number, context: SpawnContext): number {
+        const candidates = this.getCandidates(context);
+        const safe = candidates.find(type => !createsMatch(row, col, type, context));
+        return safe !== undefined ? safe : candidates[0];
+    }
+}
+
+export class AssistSpawnPolicy extends WeightedSpawnPolicy {
+    private threshold: number;
+    
+    constructor(weights: number[] = [], threshold: number = 1) {
+        super(weights);
+        this.threshold = threshold;
+    }
+    
+    pickType(row: number, col: number, context: SpawnContext): number {
+        const candidates = this.getCandidates(context);
+        
+        const baseline = context.validator.findAllMoves().length;
+        if (baseline > this.threshold) return candidates[0];
+        
+        const helpful = candidates.find(type => countMovesWith(row, col, type, context) > baseline);
+        return helpful !== undefined ? helpful : candidates[0];
+    }
+}
+
+export class HardSpawnPolicy extends WeightedSpawnPolicy {
+    pickType(row: number, col: number, context: SpawnContext): number {
+        const candidates = this.getCandidates(context);
+        const safe = candidates.filter(type => !createsMatch(row, col, type, context));
+        if (safe.length === 0) return candidates[0];
+        
+        const baseline = context.validator.findAllMoves().length;
+        const stingy = safe.find(type => {
+            const moves = countMovesWith(row, col, type, context);
+            return moves <= baseline && moves > 0;
+        });
+        return stingy !== undefined ? stingy : safe[0];
+    }
+}
+
+/**
+ * CREATE SPAWN POLICY
+ * Builds the policy described by the level data
+ */
+export function createSpawnPolicy(definition: SpawnPolicyDefinition): SpawnPolicy {
+    switch (definition.type) {
+        case 'avoidMatch':
+            return new AvoidMatchSpawnPolicy(definition.weights);
+        case 'assist':
+            return new AssistSpawnPolicy(definition.weights, definition.threshold);
+        case 'hard':
+            return new HardSpawnPolicy(definition.weights);
+        default:
+            return new WeightedSpawnPolicy(definition.weights);
+    }
+}
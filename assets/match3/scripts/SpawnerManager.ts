@@ -0,0 +1,149 @@
+import { BoardModel, CellPosition, GemMove } from './BoardModel';
+import { BoardGenerator } from './BoardGenerator';
+import { GravityDirection, GravityManager, gravityDirectionForRotation } from './GravityManager';
+import { SpawnerDefinition } from './LevelDefinition';
+
+/**
+ * SPAWNER MANAGER
+ * 
+ * Physically correct refill: new gems only enter the board at spawner
+ * cells and then fall through it with GravityManager, so refill respects
+ * holes, stones, chained gems and diagonal slides like any other gem.
+ * 
+ * ALGORITHM (one refill after gravity has settled):
+ * 1. Spawn a gem in every empty spawner for the current gravity direction
+ * 2. Let gravity settle, with these spawners as the feeders that keep
+ *    their lanes from pulling gems in diagonally
+ * 3. Repeat until no spawner is empty after settling
+ * 4. Pick the new gem types in their final cells, in spawn order, so
+ *    spawn policies judge the cell the gem actually ends up in
+ * Every round places at least one gem, so the loop always ends. Cells no
+ * spawner can reach stay empty, which is how levels restrict where new
+ * gems come from.
+ * 
+ * Spawners come from the level per gravity direction; a direction with
+ * none uses the first playable cell of every lane (GravityManager.getEntryCells).
+ */
+
+export interface SpawnedGem {
+    entry: CellPosition;    // cell just outside the spawner, where the gem appears
+    path: CellPosition[];   // spawner first, ending at the final cell
+    round: number;          // refill round the gem spawned in (0 = first)
+}
+
+export interface RefillResult {
+    spawned: SpawnedGem[];
+    moves: GemMove[];       // existing gems pushed along during the refill
+}
+
+interface RefillTrail {
+    from: CellPosition;
+    path: CellPosition[];
+    spawned: SpawnedGem | null;
+}
+
+const PENDING_TYPE = -1;
+
+const UPSTREAM: { [direction in GravityDirection]: [number, number] } = {
+    down: [1, 0],
+    left: [0, 1],
+    up: [-1, 0],
+    right: [0, -1]
+};
+
+export class SpawnerManager {
+    private board: BoardModel;
+    private gravity: GravityManager;
+    private generator: BoardGenerator;
+    private spawners: SpawnerDefinition[];
+    
+    constructor(board: BoardModel, gravity: GravityManager, generator: BoardGenerator, spawners: SpawnerDefinition[] = []) {
+        this.board = board;
+        this.gravity = gravity;
+        this.generator = generator;
+        this.spawners = spawners;
+    }
+    
+    /**
+     * GET SPAWNERS
+     * Spawner cells active for the given board rotation
+     */
+    getSpawners(rotationAngle: number): CellPosition[] {
+        const direction = gravityDirectionForRotation(rotationAngle);
+        const spawners = this.spawners
+            .filter(spawner => spawner.gravity === direction)
+            .map(({ row, col }) => ({ row, col }));
+        
+        return spawners.length > 0 ? spawners : this.gravity.getEntryCells(rotationAngle);
+    }
+    
+    /**
+     * REFILL
+     * Spawns and settles new gems until every spawner is occupied
+     */
+    refill(rotationAngle: number): RefillResult {
+        const spawners = this.getSpawners(rotationAngle);
+        const [dRow, dCol] = UPSTREAM[gravityDirectionForRotation(rotationAngle)];
+        const trails = new Map<string, RefillTrail>();
+        const spawned: SpawnedGem[] = [];
+        
+        for (let round = 0; ; round++) {
+            let placed = 0;
+            
+            for (const { row, col } of spawners) {
+                if (!this.board.isPlayable(row, col) || this.board.hasGem(row, col)) continue;
+                
+                this.board.setGem(row, col, { type: PENDING_TYPE });
+                const gem: SpawnedGem = {
+                    entry: { row: row + dRow, col: col + dCol },
+                    path: [{ row, col }],
+                    round
+                };
+                spawned.push(gem);
+                trails.set(`${row},${col}`, { from: { row, col }, path: gem.path, spawned: gem });
+                placed++;
+            }
+            
+            if (placed === 0) break;
+            
+            this.followMoves(this.gravity.applyForRotation(rotationAngle, spawners), trails);
+        }
+        
+        // Types don't affect gravity, so they are chosen after settling
+        const finalCells = spawned.map(gem => gem.path[gem.path.length - 1]);
+        finalCells.forEach(({ row, col }) => this.board.removeGem(row, col));
+        finalCells.forEach(({ row, col }) => this.generator.spawnGem(row, col));
+        
+        const moves: GemMove[] = [];
+        trails.forEach((trail, key) => {
+            if (trail.spawned) return;
+            
+            const [toRow, toCol] = key.split(',').map(Number);
+            moves.push({ fromRow: trail.from.row, fromCol: trail.from.col, toRow, toCol, path: trail.path });
+        });
+        
+        return { spawned, moves };
+    }
+    
+    /**
+     * FOLLOW MOVES
+     * Extends the trails with one gravity pass (moves are simultaneous)
+     */
+    private followMoves(moves: GemMove[], trails: Map<string, RefillTrail>) {
+        const moving = moves.map(move => {
+            const key = `${move.fromRow},${move.fromCol}`;
+            const trail = trails.get(key) || {
+                from: { row: move.fromRow, col: move.fromCol },
+                path: [],
+                spawned: null
+            };
+            trails.delete(key);
+            return { move, trail };
+        });
+        
+        for (const { move, trail } of moving) {
+            trail.path.push(...(move.path || [{ row: move.toRow, col: move.toCol }]));
+            trails.set(`${move.toRow},${move.toCol}`, trail);
+        }
+    }
+}
@@ -0,0 +1,151 @@
+import { BoardModel, CellPosition, SpecialKind } from './BoardModel';
+import { MatchGroup } from './MatchValidator';
+
+/**
+ * SPECIAL GEM MANAGER
+ * 
+ * Decides which special gems a set of matches creates and which
+ * cells get cleared when special gems are matched.
+ * 
+ * CREATION RULES (per match group from MatchValidator.findMatchGroups):
+ * 1. Any run of 5+ creates a COLOR_BOMB
+ * 2. A horizontal and a vertical run crossing (L/T shape) creates a BOMB
+ * 3. Any run of 4 creates a LINE gem along the run orientation
+ * 4. Plain 3-in-a-row creates nothing
+ * 
+ * The special spawns at the swapped cell when it is part of the group,
+ * otherwise at the crossing cell or the middle of the longest run.
+ * 
+ * ACTIVATION:
+ * Matched specials fire their effect, and any special caught in an
+ * effect fires too, so chains resolve in a single wave.
+ */
+
+export interface SpecialCreation {
+    row: number;
+    col: number;
+    type: number;
+    special: SpecialKind;
+}
+
+export class SpecialGemManager {
+    private board: BoardModel;
+    private rows: number;
+    private cols: number;
+    
+    constructor(board: BoardModel) {
+        this.board = board;
+        this.rows = board.rows;
+        this.cols = board.cols;
+    }
+    
+    /**
+     * PLAN CREATIONS
+     * Returns the special gems the given match groups should spawn
+     * preferredCells are the cells involved in the player's swap (if any)
+     */
+    planCreations(groups: MatchGroup[], preferredCells: CellPosition[] = []): SpecialCreation[] {
+        const creations: SpecialCreation[] = [];
+        
+        for (const group of groups) {
+            const special = this.getSpecialForGroup(group);
+            if (special === SpecialKind.NONE) continue;
+            
+            const position = this.pickSpawnCell(group, preferredCells);
+            creations.push({ row: position.row, col: position.col, type: group.type, special });
+        }
+        
+        return creations;
+    }
+    
+    /**
+     * EXPAND ACTIVATIONS
+     * Returns the matched cells plus every cell cleared by special gems
+     * among them, following chains until no new special is triggered
+     */
+    expandActivations(cells: CellPosition[]): CellPosition[] {
+        const cleared = new Map<number, CellPosition>();
+        const pending: CellPosition[] = [];
+        
+        const add = (cell: CellPosition) => {
+            const key = cell.row * this.cols + cell.col;
+            if (cleared.has(key) || !this.board.hasGem(cell.row, cell.col)) return;
+            cleared.set(key, cell);
+            if (this.board.getSpecial(cell.row, cell.col) !== SpecialKind.NONE) {
+                pending.push(cell);
+            }
+        };
+        
+        cells.forEach(add);
+        
+        while (pending.length > 0) {
+            const { row, col } = pending.shift();
+            this.getEffectArea(row, col).forEach(add);
+        }
+        
+        return Array.from(cleared.values());
+    }
+    
+    /**
+     * EFFECT AREA
+     * Cells cleared when the special gem at (row, col) fires
+     */
+    getEffectArea(row: number, col: number): CellPosition[] {
+        const cells: CellPosition[] = [];
+        
+        switch (this.board.getSpecial(row, col)) {
+            case SpecialKind.LINE_HORIZONTAL:
+                for (let c = 0; c < this.cols; c++) {
+                    if (this.board.isPlayable(row, c)) cells.push({ row, col: c });
+                }
+                break;
+            case SpecialKind.LINE_VERTICAL:
+                for (let r = 0; r < this.rows; r++) {
+                    if (this.board.isPlayable(r, col)) cells.push({ row: r, col });
+                }
+                break;
+            case SpecialKind.BOMB:
+                for (let r = row - 1; r <= row + 1; r++) {
+                    for (let c = col - 1; c <= col + 1; c++) {
+                        if (this.board.isPlayable(r, c)) cells.push({ row: r, col: c });
+                    }
+                }
+                break;
+            case SpecialKind.COLOR_BOMB: {
+                const type = this.board.getType(row, col);
+                for (const cell of this.board.getPlayableCells()) {
+                    if (this.board.getType(cell.row, cell.col) === type) cells.push(cell);
+                }
+                break;
+            }
+        }
+        
+        return cells;
+    }
+    
+    private getSpecialForGroup(group: MatchGroup): SpecialKind {
+        if (group.length >= 5) return SpecialKind.COLOR_BOMB;
+        
+        if (group.orientation === 'mixed') return SpecialKind.BOMB;
+        
+        if (group.length === 4) {
+            return group.orientation === 'horizontal' ? SpecialKind.LINE_HORIZONTAL : SpecialKind.LINE_VERTICAL;
+        }
+        
+        return SpecialKind.NONE;
+    }
+    
+    private pickSpawnCell(group: MatchGroup, preferredCells: CellPosition[]): CellPosition {
+        for (const preferred of preferredCells) {
+            if (group.cells.some(cell => cell.row === preferred.row && cell.col === preferred.col)) {
+                return preferred;
+            }
+        }
+        
+        // Crossing cell of an L/T shape
+        if (group.intersections.length > 0) return group.intersections[0];
+        
+        const longest = group.runs.reduce((best, run) => run.cells.length > best.cells.length ? run : best);
+        return longest.cells[Math.floor(longest.cells.length / 2)];
+    }
+}
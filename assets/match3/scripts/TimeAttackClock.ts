@@ -0,0 +1,133 @@
+import { TimeAttackDefinition } from './LevelDefinition';
+import { WaveScore } from './ScoreModel';
+
+/**
+ * TIME ATTACK CLOCK
+ * 
+ * Countdown and scoring rules of the time-attack mode.
+ * 
+ * - The clock runs during play; with pauseWhileResolving it stops while
+ *   a turn's swaps, cascades and refills animate
+ * - Cascade waves and big matches add bonus seconds
+ * - Rotations cost rotationCost seconds instead of using the rotation
+ *   budget; a rotation is only allowed while more time than that is left
+ * 
+ * END SCORING:
+ * Finishing the objectives before the clock runs out turns every second
+ * left into timeBonusPoints; the final score is the match score plus
+ * that time bonus.
+ */
+
+export interface TimeAttackResult {
+    baseScore: number;
+    timeLeft: number;          // whole seconds left when the game ended
+    timeBonus: number;
+    finalScore: number;
+    bonusSeconds: number;      // seconds earned from cascades and big matches
+    rotationSeconds: number;   // seconds spent on rotations
+    secondsPlayed: number;
+}
+
+export class TimeAttackClock {
+    private definition: TimeAttackDefinition;
+    private remaining: number;
+    private elapsed: number = 0;
+    private bonusSeconds: number = 0;
+    private rotationSeconds: number = 0;
+    
+    constructor(definition: TimeAttackDefinition) {
+        this.definition = definition;
+        this.remaining = definition.duration;
+    }
+    
+    getRemaining(): number {
+        return this.remaining;
+    }
+    
+    isExpired(): boolean {
+        return this.remaining <= 0;
+    }
+    
+    /**
+     * TICK
+     * Advances the clock; resolving: a turn is animating
+     * Returns true once the time is up
+     */
+    tick(dt: number, resolving: boolean): boolean {
+        if (this.isExpired()) return true;
+        if (resolving && this.definition.pauseWhileResolving) return false;
+        
+        this.remaining = Math.max(0, this.remaining - dt);
+        this.elapsed += dt;
+        return this.isExpired();
+    }
+    
+    getRotationCost(): number {
+        return this.definition.rotationCost;
+    }
+    
+    /**
+     * AFFORDABLE ROTATIONS
+     * Rotations that still leave time on the clock
+     */
+    affordableRotations(): number {
+        if (this.isExpired()) return 0;
+        if (this.definition.rotationCost <= 0) return Infinity;
+        return Math.max(0, Math.ceil(this.remaining / this.definition.rotationCost) - 1);
+    }
+    
+    chargeRotation() {
+        this.remaining = Math.max(0, this.remaining - this.definition.rotationCost);
+        this.rotationSeconds += this.definition.rotationCost;
+    }
+    
+    /**
+     * ADD WAVE BONUS
+     * Seconds for a cascade wave (after the first) and for each group of
+     * bigMatchLength or more; returns the seconds added
+     */
+    addWaveBonus(wave: WaveScore): number {
+        if (this.isExpired()) return 0;
+        
+        let seconds = wave.cascadeDepth > 1 ? this.definition.cascadeBonus : 0;
+        for (const group of wave.groups) {
+            if (group.length >= this.definition.bigMatchLength) {
+                seconds += this.definition.bigMatchBonus;
+            }
+        }
+        
+        this.remaining += seconds;
+        this.bonusSeconds += seconds;
+        return seconds;
+    }
+    
+    /**
+     * FINISH
+     * End-of-game scoring; completed: the objectives were met
+     */
+    finish(score: number, completed: boolean): TimeAttackResult {
+        const timeLeft = Math.floor(this.remaining);
+        const timeBonus = completed ? timeLeft * this.definition.timeBonusPoints : 0;
+        
+        return {
+            baseScore: score,
+            timeLeft,
+            timeBonus,
+            finalScore: score + timeBonus,
+            bonusSeconds: this.bonusSeconds,
+            rotationSeconds: this.rotationSeconds,
+            secondsPlayed: Math.round(this.elapsed)
+        };
+    }
+    
+    /**
+     * FORMAT
+     * m:ss for HUD labels
+     */
+    format(): string {
+        const seconds = Math.ceil(this.remaining);
+        const minutes = Math.floor(seconds / 60);
+        const rest = seconds % 60;
+        return `${minutes}:${rest < 10 ? '0' : ''}${rest}`;
+    }
+}
@@ -0,0 +1,165 @@
+import { BoardModel, CellPosition } from './BoardModel';
+import { BoardGenerator } from './BoardGenerator';
+import { BlockerManager } from './BlockerManager';
+import { GravityManager } from './GravityManager';
+import { MatchValidator } from './MatchValidator';
+import { HistoryCommand } from './MoveHistory';
+import { RandomSource } from './Random';
+import { ScoreModel, TurnScoreBreakdown } from './ScoreModel';
+import { SpawnerDefinition, SpawnPolicyDefinition } from './LevelDefinition';
+import { SpawnerManager } from './SpawnerManager';
+import { SpecialGemManager } from './SpecialGemManager';
+import { createSpawnPolicy } from './SpawnPolicy';
+
+/**
+ * TURN SIMULATOR
+ * 
+ * Resolves a whole turn (swap or rotation) on a BoardModel without any
+ * view: the same match, special gem, blocker, gravity, refill and
+ * shuffle rules Match3Game animates, applied instantly.
+ * 
+ * Used by AutoplayBot to try candidate moves on board copies and by the
+ * balancing simulator to play complete games headless.
+ * 
+ * TURN PIPELINE (mirrors Match3Game.swapGems / rotateBoard):
+ * 1. Swap (rejected unless it creates a match) or rotate + gravity + refill
+ * 2. Cascade waves: groups -> specials -> activations -> blockers ->
+ *    remove -> place specials -> gravity -> refill, while matches remain
+ * 3. Shuffle when auto-shuffle is on and no valid move is left
+ */
+
+export interface SimulationOptions {
+    gemTypes: number;
+    spawners?: SpawnerDefinition[];
+    spawnPolicy?: SpawnPolicyDefinition;
+    enableAutoShuffle?: boolean;
+}
+
+export interface TurnOutcome {
+    command: HistoryCommand;
+    valid: boolean;
+    rotationAngle: number;
+    score: TurnScoreBreakdown;
+    clearedTypes: number[];
+    brokenLayers: number;
+    shuffled: boolean;
+}
+
+const MAX_CASCADE_WAVES = 100;
+
+export class TurnSimulator {
+    private board: BoardModel;
+    private validator: MatchValidator;
+    private gravity: GravityManager;
+    private generator: BoardGenerator;
+    private specials: SpecialGemManager;
+    private blockers: BlockerManager;
+    private spawnerManager: SpawnerManager;
+    private scoreModel: ScoreModel = new ScoreModel();
+    private enableAutoShuffle: boolean;
+    
+    constructor(board: BoardModel, random: RandomSource, options: SimulationOptions) {
+        this.board = board;
+        this.validator = new MatchValidator(board);
+        this.gravity = new GravityManager(board);
+        this.generator = new BoardGenerator(
+            board,
+            this.validator,
+            options.gemTypes,
+            random,
+            createSpawnPolicy(options.spawnPolicy || { type: 'uniform' })
+        );
+        this.specials = new SpecialGemManager(board);
+        this.blockers = new BlockerManager(board);
+        this.spawnerManager = new SpawnerManager(board, this.gravity, this.generator, options.spawners || []);
+        this.enableAutoShuffle = options.enableAutoShuffle !== undefined ? options.enableAutoShuffle : true;
+    }
+    
+    getValidator(): MatchValidator {
+        return this.validator;
+    }
+    
+    /**
+     * GENERATE
+     * Fills the board like a fresh game start
+     */
+    generate() {
+        this.generator.generate();
+    }
+    
+    /**
+     * APPLY
+     * Plays one command at the given board angle and resolves the turn
+     */
+    apply(command: HistoryCommand, rotationAngle: number): TurnOutcome {
+        const outcome: TurnOutcome = {
+            command,
+            valid: true,
+            rotationAngle,
+            score: null,
+            clearedTypes: [],
+            brokenLayers: 0,
+            shuffled: false
+        };
+        
+        if (command.kind === 'swap') {
+            const { from, to } = command;
+            if (!this.validator.isValidSwap(from.row, from.col, to.row, to.col)) {
+                outcome.valid = false;
+                this.scoreModel.beginTurn('swap');
+                outcome.score = this.scoreModel.endTurn();
+                return outcome;
+            }
+            
+            this.board.swap(from.row, from.col, to.row, to.col);
+            this.scoreModel.beginTurn('swap');
+            this.resolveCascades(outcome, [from, to]);
+        } else {
+            outcome.rotationAngle = (rotationAngle + command.degrees + 360) % 360;
+            this.settle(outcome.rotationAngle);
+            this.scoreModel.beginTurn('rotation');
+            this.resolveCascades(outcome, []);
+        }
+        
+        outcome.score = this.scoreModel.endTurn();
+        
+        if (this.enableAutoShuffle && !this.validator.hasValidMoves()) {
+            outcome.shuffled = this.generator.shuffle().strategy !== 'failed';
+        }
+        
+        return outcome;
+    }
+    
+    private resolveCascades(outcome: TurnOutcome, swapCells: CellPosition[]) {
+        let matches = this.validator.findAllMatches();
+        
+        for (let wave = 0; matches.length > 0 && wave < MAX_CASCADE_WAVES; wave++) {
+            const groups = this.validator.findMatchGroups();
+            const creations = this.specials.planCreations(groups, wave === 0 ? swapCells : []);
+            const cleared = this.specials.expandActivations(matches);
+            const blockers = this.blockers.resolveClears(matches, cleared);
+            const scored = this.blockers.getScoredMatches(groups, blockers);
+            
+            this.scoreModel.scoreWave(scored.groups, scored.clearedCount);
+            outcome.brokenLayers += blockers.brokenLayers;
+            
+            for (const { row, col } of blockers.removed) {
+                outcome.clearedTypes.push(this.board.getType(row, col));
+                this.board.removeGem(row, col);
+            }
+            
+            for (const creation of creations) {
+                if (this.board.hasGem(creation.row, creation.col)) continue;
+                this.board.setGem(creation.row, creation.col, { type: creation.type, special: creation.special });
+            }
+            
+            this.settle(outcome.rotationAngle);
+            matches = this.validator.findAllMatches();
+        }
+    }
+    
+    private settle(rotationAngle: number) {
+        this.gravity.applyForRotation(rotationAngle, this.spawnerManager.getSpawners(rotationAngle));
+        this.spawnerManager.refill(rotationAngle);
+    }
+}
@@ -0,0 +1,283 @@
+import * as fs from 'fs';
+import { BoardModel } from '../assets/match3/scripts/BoardModel';
+import { LevelDefinition, parseLevelDefinition } from '../assets/match3/scripts/LevelDefinition';
+import { LevelStatus, ObjectiveTracker } from '../assets/match3/scripts/ObjectiveTracker';
+import { AutoplayBot, BotStrategyName, botSeedFor, createBotStrategy } from '../assets/match3/scripts/AutoplayBot';
+import { SeededRandom } from '../assets/match3/scripts/Random';
+import { SimulationOptions, TurnSimulator } from '../assets/match3/scripts/TurnSimulator';
+
+/**
+ * LEVEL BALANCING SIMULATOR
+ * 
+ * Plays a level many times headless with an AutoplayBot and reports how
+ * it plays: win rate, scores, cascade depths, shuffles and rotations.
+ * Uses TurnSimulator, i.e. the same validator, gravity, specials,
+ * blockers and refill rules as Match3Game.
+ * 
+ * USAGE (from the project root, nothing to install in the project):
+ *   npx -p typescript@5 -p ts-node -p @types/node ts-node --skipProject \
+ *     -O '{"module":"commonjs","target":"es2019","strict":false}' tools/simulate.ts \
+ *     --level assets/match3/levels/level_001.json --games 500 --strategy greedy
+ * 
+ * OPTIONS:
+ *   --level <file>      level JSON (default assets/match3/levels/level_001.json)
+ *   --games <n>         games to play (default 500)
+ *   --seed <n>          seed of the first game; game i uses seed + i (default 1)
+ *   --strategy <name>   greedy | lookahead | objective (default greedy)
+ *   --max-turns <n>     turn cap for levels without a move limit (default 200)
+ *   --json <file>       also write the report as JSON ("-" prints JSON only)
+ * 
+ * The bot plays with the level's own move limit, rotation budget,
+ * spawners and spawn policy; a game that hits the turn cap without a
+ * result counts as unfinished.
+ * 
+ * Time attack levels are rejected: their budget is real time (countdown,
+ * rotation cost, cascade bonuses in seconds), which turns played by the
+ * bot don't model.
+ */
+
+interface CliOptions {
+    level: string;
+    games: number;
+    seed: number;
+    strategy: BotStrategyName;
+    maxTurns: number;
+    json: string;
+}
+
+interface GameRecord {
+    seed: number;
+    status: LevelStatus | 'unfinished';
+    score: number;
+    turns: number;
+    rotationsUsed: number;
+    shuffles: number;
+    cascadeDepths: number[];
+}
+
+interface SimulationReport {
+    level: string;
+    strategy: BotStrategyName;
+    games: number;
+    firstSeed: number;
+    winRate: number;
+    results: { complete: number; failed: number; unfinished: number };
+    score: { average: number; min: number; median: number; max: number };
+    averageTurns: number;
+    cascadeDepthDistribution: { [depth: number]: number };
+    shuffles: { perGame: number; perTurn: number; gamesWithShuffle: number };
+    rotationsUsed: { perGame: number; max: number };
+}
+
+function parseArgs(argv: string[]): CliOptions {
+    const options: CliOptions = {
+        level: 'assets/match3/levels/level_001.json',
+        games: 500,
+        seed: 1,
+        strategy: 'greedy',
+        maxTurns: 200,
+        json: ''
+    };
+    
+    for (let i = 0; i < argv.length; i++) {
+        const value = argv[i + 1];
+        switch (argv[i]) {
+            case '--level': options.level = value; i++; break;
+            case '--games': options.games = parseInt(value, 10); i++; break;
+            case '--seed': options.seed = parseInt(value, 10); i++; break;
+            case '--strategy': options.strategy = value as BotStrategyName; i++; break;
+            case '--max-turns': options.maxTurns = parseInt(value, 10); i++; break;
+            case '--json': options.json = value; i++; break;
+            default:
+                throw new Error(`Unknown option ${argv[i]}`);
+        }
+    }
+    
+    if (!(options.games > 0)) throw new Error('--games must be a positive number');
+    if (['greedy', 'lookahead', 'objective'].indexOf(options.strategy) < 0) {
+        throw new Error('--strategy must be greedy, lookahead or objective');
+    }
+    
+    return options;
+}
+
+/**
+ * PLAY GAME
+ * One full game with the same budget rules as Match3Game:
+ * swaps use moves, rotations use the rotation budget and lock once
+ * the moves are spent
+ */
+function playGame(level: LevelDefinition, seed: number, options: CliOptions): GameRecord {
+    const board = new BoardModel(level.pattern);
+    for (const feature of level.cellFeatures) {
+        board.setFeature(feature.row, feature.col, feature.feature, feature.hits);
+    }
+    
+    const simulationOptions: SimulationOptions = {
+        gemTypes: level.palette.length,
+        spawners: level.spawners,
+        spawnPolicy: level.spawnPolicy,
+        enableAutoShuffle: level.enableAutoShuffle
+    };
+    const simulator = new TurnSimulator(board, new SeededRandom(seed), simulationOptions);
+    simulator.generate();
+    
+    const tracker = new ObjectiveTracker(level.objectives, board.countBlockerLayers());
+    const bot = new AutoplayBot(simulationOptions, createBotStrategy(options.strategy), botSeedFor(seed));
+    const validator = simulator.getValidator();
+    
+    const record: GameRecord = { seed, status: 'unfinished', score: 0, turns: 0, rotationsUsed: 0, shuffles: 0, cascadeDepths: [] };
+    let rotationAngle = 0;
+    let remainingMoves = level.moveLimit;
+    let remainingRotations = level.maxRotations;
+    const turnCap = level.moveLimit > 0 ? level.moveLimit + level.maxRotations : options.maxTurns;
+    
+    while (record.turns < turnCap) {
+        const outOfMoves = level.moveLimit > 0 && remainingMoves <= 0;
+        const command = bot.chooseCommand({
+            board,
+            rotationAngle,
+            remainingRotations: outOfMoves ? 0 : remainingRotations,
+            objectives: tracker.getProgress()
+        });
+        if (!command) break;
+        
+        const outcome = simulator.apply(command, rotationAngle);
+        record.turns++;
+        
+        if (command.kind === 'swap') {
+            remainingMoves--;
+        } else {
+            remainingRotations--;
+            record.rotationsUsed++;
+            rotationAngle = outcome.rotationAngle;
+        }
+        
+        record.score += outcome.score.total;
+        if (outcome.score.maxCascadeDepth > 0) record.cascadeDepths.push(outcome.score.maxCascadeDepth);
+        if (outcome.shuffled) record.shuffles++;
+        
+        tracker.recordScore(record.score);
+        tracker.recordClearedGems(outcome.clearedTypes);
+        tracker.recordClearedBlockers(outcome.brokenLayers);
+        
+        const isStuck = remainingRotations <= 0 && !validator.hasValidMoves();
+        const outOfResources = (level.moveLimit > 0 && remainingMoves <= 0) || isStuck;
+        const status = tracker.evaluate(outOfResources);
+        if (status !== 'playing') {
+            record.status = status;
+            break;
+        }
+    }
+    
+    if (record.status === 'unfinished' && !validator.hasValidMoves() && remainingRotations <= 0) {
+        record.status = 'failed';
+    }
+    
+    return record;
+}
+
+function buildReport(options: CliOptions, records: GameRecord[]): SimulationReport {
+    const count = (status: GameRecord['status']) => records.filter(record => record.status === status).length;
+    const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+    const average = (values: number[]) => values.length > 0 ? sum(values) / values.length : 0;
+    
+    const scores = records.map(record => record.score).sort((a, b) => a - b);
+    const turns = records.map(record => record.turns);
+    const shuffles = records.map(record => record.shuffles);
+    const rotations = records.map(record => record.rotationsUsed);
+    
+    const cascadeDepthDistribution: { [depth: number]: number } = {};
+    for (const record of records) {
+        for (const depth of record.cascadeDepths) {
+            cascadeDepthDistribution[depth] = (cascadeDepthDistribution[depth] || 0) + 1;
+        }
+    }
+    
+    return {
+        level: options.level,
+        strategy: options.strategy,
+        games: records.length,
+        firstSeed: options.seed,
+        winRate: count('complete') / records.length,
+        results: { complete: count('complete'), failed: count('failed'), unfinished: count('unfinished') },
+        score: {
+            average: Math.round(average(scores)),
+            min: scores[0],
+            median: scores[Math.floor(scores.length / 2)],
+            max: scores[scores.length - 1]
+        },
+        averageTurns: average(turns),
+        cascadeDepthDistribution,
+        shuffles: {
+            perGame: average(shuffles),
+            perTurn: sum(turns) > 0 ? sum(shuffles) / sum(turns) : 0,
+            gamesWithShuffle: shuffles.filter(value => value > 0).length
+        },
+        rotationsUsed: { perGame: average(rotations), max: Math.max(...rotations) }
+    };
+}
+
+function formatTable(report: SimulationReport): string {
+    const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+    const totalTurnsWithMatches = Object.keys(report.cascadeDepthDistribution)
+        .reduce((total, depth) => total + report.cascadeDepthDistribution[depth], 0);
+    
+    const rows: [string, string][] = [
+        ['Level', report.level],
+        ['Strategy', report.strategy],
+        ['Games', `${report.games} (seeds ${report.firstSeed}..${report.firstSeed + report.games - 1})`],
+        ['Win rate', percent(report.winRate)],
+        ['Complete / failed / unfinished', `${report.results.complete} / ${report.results.failed} / ${report.results.unfinished}`],
+        ['Score avg / min / median / max', `${report.score.average} / ${report.score.min} / ${report.score.median} / ${report.score.max}`],
+        ['Turns per game', report.averageTurns.toFixed(1)],
+        ['Shuffles per game', report.shuffles.perGame.toFixed(2)],
+        ['Shuffles per turn', percent(report.shuffles.perTurn)],
+        ['Games with a shuffle', `${report.shuffles.gamesWithShuffle}`],
+        ['Rotations used per game', `${report.rotationsUsed.perGame.toFixed(2)} (max ${report.rotationsUsed.max})`]
+    ];
+    
+    for (const depth of Object.keys(report.cascadeDepthDistribution)) {
+        const turns = report.cascadeDepthDistribution[depth];
+        rows.push([`Cascade depth ${depth}`, `${turns} turns (${percent(turns / totalTurnsWithMatches)})`]);
+    }
+    
+    const width = Math.max(...rows.map(([label]) => label.length));
+    return rows.map(([label, value]) => `${label.padEnd(width)}  ${value}`).join('\n');
+}
+
+function main() {
+    const options = parseArgs(process.argv.slice(2));
+    const level = parseLevelDefinition(JSON.parse(fs.readFileSync(options.level, 'utf8')));
+    if (level.mode === 'timeAttack') {
+        throw new Error(`${options.level} is a timeAttack level; only classic levels can be simulated`);
+    }
+    
+    const records: GameRecord[] = [];
+    for (let game = 0; game < options.games; game++) {
+        records.push(playGame(level, (options.seed + game) >>> 0, options));
+        if (options.json !== '-' && (game + 1) % 50 === 0) {
+            console.error(`... ${game + 1}/${options.games} games`);
+        }
+    }
+    
+    const report = buildReport(options, records);
+    
+    if (options.json === '-') {
+        console.log(JSON.stringify(report, null, 2));
+        return;
+    }
+    
+    console.log(formatTable(report));
+    if (options.json) {
+        fs.writeFileSync(options.json, JSON.stringify(report, null, 2));
+        console.log(`\nJSON report written to ${options.json}`);
+    }
+}
+
+try {
+    main();
+} catch (error) {
+    console.error(`simulate: ${error.message}`);
+    process.exit(1);
+}
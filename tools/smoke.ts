@@ -0,0 +1,398 @@
+import * as fs from 'fs';
+import { BoardModel, CellPosition, GemMove } from '../assets/match3/scripts/BoardModel';
+import { BoardGenerator } from '../assets/match3/scripts/BoardGenerator';
+import { GravityManager, gravityDirectionForRotation } from '../assets/match3/scripts/GravityManager';
+import { MatchValidator } from '../assets/match3/scripts/MatchValidator';
+import { SpawnerManager } from '../assets/match3/scripts/SpawnerManager';
+import { LevelDefinition, SpawnerDefinition, parseLevelDefinition } from '../assets/match3/scripts/LevelDefinition';
+import { ObjectiveTracker } from '../assets/match3/scripts/ObjectiveTracker';
+import { AutoplayBot, botSeedFor, createBotStrategy } from '../assets/match3/scripts/AutoplayBot';
+import { serializeGame, deserializeGame } from '../assets/match3/scripts/GameStateSerializer';
+import { SeededRandom } from '../assets/match3/scripts/Random';
+import { DEFAULT_SCORE_CONFIG } from '../assets/match3/scripts/ScoreModel';
+import { SimulationOptions, TurnSimulator } from '../assets/match3/scripts/TurnSimulator';
+
+/**
+ * HEADLESS SMOKE CHECK
+ * 
+ * Runs the board logic in plain Node.js and checks the invariants the
+ * view relies on, so regressions show up without opening the editor:
+ * - gravity + refill: every rotation settles, keeps chained gems in
+ *   place, conserves gems and, without chains, leaves no cell empty
+ * - straight refill: a lane open up to its spawner (default or from the
+ *   level) refills straight down instead of pulling gems diagonally from
+ *   the neighbouring lanes
+ * - shuffle: the result has no match and at least one valid move
+ * - save/resume: a saved game round-trips against the level pattern and
+ *   is rejected for another level or board shape
+ * - blockers: ice never locks a gem, a group held whole by chains
+ *   scores once and a partly chained group scores only the gems it
+ *   removed
+ * 
+ * USAGE (from the project root, nothing to install in the project):
+ *   npx -p typescript@5 -p ts-node -p @types/node ts-node --skipProject \
+ *     -O '{"module":"commonjs","target":"es2019","strict":false}' tools/smoke.ts
+ * 
+ * OPTIONS:
+ *   --level <file>   level JSON (default assets/match3/levels/level_001.json)
+ *   --seeds <n>      seeds per check (default 20)
+ * 
+ * Prints one line per check and exits with code 1 if any check fails.
+ */
+
+interface CliOptions {
+    level: string;
+    seeds: number;
+}
+
+interface SmokeCheck {
+    name: string;
+    run: (level: LevelDefinition, seed: number) => void;
+}
+
+const ROTATIONS = [0, 90, 180, 270];
+
+// One step against gravity per rotation (toward where new gems come from)
+const UPSTREAM: { [rotationAngle: number]: [number, number] } = {
+    0: [1, 0],
+    90: [0, 1],
+    180: [-1, 0],
+    270: [0, -1]
+};
+
+function parseArgs(argv: string[]): CliOptions {
+    const options: CliOptions = {
+        level: 'assets/match3/levels/level_001.json',
+        seeds: 20
+    };
+    
+    for (let i = 0; i < argv.length; i++) {
+        const value = argv[i + 1];
+        switch (argv[i]) {
+            case '--level': options.level = value; i++; break;
+            case '--seeds': options.seeds = parseInt(value, 10); i++; break;
+            default:
+                throw new Error(`Unknown option ${argv[i]}`);
+        }
+    }
+    
+    if (!(options.seeds > 0)) throw new Error('--seeds must be a positive number');
+    
+    return options;
+}
+
+function assert(condition: boolean, message: string) {
+    if (!condition) throw new Error(message);
+}
+
+function sameGrid(a: number[][], b: number[][]): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function createBoard(level: LevelDefinition): BoardModel {
+    const board = new BoardModel(level.pattern);
+    for (const feature of level.cellFeatures) {
+        board.setFeature(feature.row, feature.col, feature.feature, feature.hits);
+    }
+    return board;
+}
+
+function createSimulationOptions(level: LevelDefinition): SimulationOptions {
+    return {
+        gemTypes: level.palette.length,
+        spawners: level.spawners,
+        spawnPolicy: level.spawnPolicy,
+        enableAutoShuffle: level.enableAutoShuffle
+    };
+}
+
+function countGems(board: BoardModel): number {
+    return board.getPlayableCells().filter(({ row, col }) => board.hasGem(row, col)).length;
+}
+
+/**
+ * GRAVITY AND REFILL
+ * Clears about a third of the gems, then settles and refills at every
+ * rotation; a second pass also chains one random gem first (it may cut
+ * cells off from every spawner, so only the first pass checks for gaps)
+ */
+function checkGravityAndRefill(level: LevelDefinition, seed: number) {
+    const random = new SeededRandom(seed);
+    
+    for (const rotationAngle of ROTATIONS) {
+        for (const withChain of [false, true]) {
+            checkSettle(level, random, rotationAngle, withChain);
+        }
+    }
+}
+
+function checkSettle(level: LevelDefinition, random: SeededRandom, rotationAngle: number, withChain: boolean) {
+    const board = createBoard(level);
+    const validator = new MatchValidator(board);
+    const generator = new BoardGenerator(board, validator, level.palette.length, random);
+    const gravity = new GravityManager(board);
+    const spawnerManager = new SpawnerManager(board, gravity, generator, level.spawners);
+    generator.generate();
+    
+    const playable = board.getPlayableCells();
+    const chained = playable[Math.floor(random.next() * playable.length)];
+    if (withChain) board.setFeature(chained.row, chained.col, 'chain', 1);
+    const chainedType = board.getType(chained.row, chained.col);
+    
+    let removed = 0;
+    for (const { row, col } of playable) {
+        if (!board.isLocked(row, col) && random.next() < 0.35) {
+            board.removeGem(row, col);
+            removed++;
+        }
+    }
+    const before = countGems(board);
+    
+    const moves = gravity.applyForRotation(rotationAngle, spawnerManager.getSpawners(rotationAngle));
+    assert(countGems(board) === before, `gravity at ${rotationAngle}° changed the gem count`);
+    assert(moves.every(move => board.hasGem(move.toRow, move.toCol)), `gravity at ${rotationAngle}° moved a gem to an empty cell`);
+    
+    const refill = spawnerManager.refill(rotationAngle);
+    assert(countGems(board) === before + refill.spawned.length, `refill at ${rotationAngle}° lost or duplicated gems`);
+    assert(refill.spawned.length <= removed, `refill at ${rotationAngle}° spawned more gems than were cleared`);
+    if (withChain) {
+        assert(board.getType(chained.row, chained.col) === chainedType, `chained gem moved at ${rotationAngle}°`);
+    }
+    assert(gravity.applyForRotation(rotationAngle, spawnerManager.getSpawners(rotationAngle)).length === 0, `board not settled after refill at ${rotationAngle}°`);
+    
+    if (!withChain && level.spawners.length === 0) {
+        const empty = board.getEmptyCells();
+        assert(empty.length === 0, `${empty.length} cells left empty at ${rotationAngle}° with default spawners`);
+    }
+}
+
+/**
+ * STRAIGHT REFILL
+ * Clears one gem at a time; when the open stretch of its lane reaches a
+ * spawner, every gem stays in that lane and the one new gem enters at
+ * that spawner. A second pass chains the gem two cells upstream and puts
+ * a level spawner between it and the cleared cell
+ */
+function checkStraightRefill(level: LevelDefinition, seed: number) {
+    for (const rotationAngle of ROTATIONS) {
+        const [dRow, dCol] = UPSTREAM[rotationAngle];
+        const base = createBoard(level);
+        new BoardGenerator(base, new MatchValidator(base), level.palette.length, new SeededRandom(seed)).generate();
+        
+        for (const cell of base.getPlayableCells()) {
+            checkLaneRefill(level, base.clone(), cell, rotationAngle, level.spawners);
+            
+            const spawner = { row: cell.row + dRow, col: cell.col + dCol };
+            const chained = { row: spawner.row + dRow, col: spawner.col + dCol };
+            if (!base.isPlayable(spawner.row, spawner.col) || !base.isPlayable(chained.row, chained.col)) continue;
+            
+            const board = base.clone();
+            board.setFeature(chained.row, chained.col, 'chain', 1);
+            const gravity = gravityDirectionForRotation(rotationAngle);
+            checkLaneRefill(level, board, cell, rotationAngle, [...level.spawners, { ...spawner, gravity }]);
+        }
+    }
+}
+
+function checkLaneRefill(level: LevelDefinition, board: BoardModel, cell: CellPosition, rotationAngle: number, spawners: SpawnerDefinition[]) {
+    const [dRow, dCol] = UPSTREAM[rotationAngle];
+    const generator = new BoardGenerator(board, new MatchValidator(board), level.palette.length, new SeededRandom(1));
+    const gravity = new GravityManager(board);
+    const spawnerManager = new SpawnerManager(board, gravity, generator, spawners);
+    
+    const active = spawnerManager.getSpawners(rotationAngle);
+    const feeder = findFeeder(board, cell, dRow, dCol, active);
+    if (!feeder) return;
+    
+    board.removeGem(cell.row, cell.col);
+    const moves = gravity.applyForRotation(rotationAngle, active);
+    const refill = spawnerManager.refill(rotationAngle);
+    
+    const inLane = ({ row, col }: CellPosition) => dRow !== 0 ? col === cell.col : row === cell.row;
+    const movesInLane = (list: GemMove[]) => list.every(move =>
+        inLane({ row: move.fromRow, col: move.fromCol }) && (move.path || []).every(inLane));
+    const where = `clearing (${cell.row},${cell.col}) at ${rotationAngle}°` + (spawners.length > 0 ? ' with level spawners' : '');
+    
+    assert(movesInLane(moves) && movesInLane(refill.moves), `${where} moved a gem out of its lane`);
+    assert(refill.spawned.length === 1, `${where} spawned ${refill.spawned.length} gems`);
+    const entry = refill.spawned[0].path[0];
+    assert(entry.row === feeder.row && entry.col === feeder.col,
+        `${where} spawned at (${entry.row},${entry.col}) instead of (${feeder.row},${feeder.col})`);
+}
+
+/**
+ * FIND FEEDER
+ * The spawner on the open stretch of the lane from cell against gravity
+ */
+function findFeeder(board: BoardModel, cell: CellPosition, dRow: number, dCol: number, spawners: CellPosition[]): CellPosition | null {
+    for (let row = cell.row, col = cell.col; board.isPlayable(row, col) && !board.isFixed(row, col); row += dRow, col += dCol) {
+        const spawner = spawners.find(other => other.row === row && other.col === col);
+        if (spawner) return spawner;
+    }
+    return null;
+}
+
+function checkShuffle(level: LevelDefinition, seed: number) {
+    const board = createBoard(level);
+    const validator = new MatchValidator(board);
+    const generator = new BoardGenerator(board, validator, level.palette.length, new SeededRandom(seed));
+    generator.generate();
+    
+    const result = generator.shuffle();
+    assert(result.strategy !== 'failed', 'shuffle failed on a playable level');
+    assert(validator.findAllMatches().length === 0, `shuffle (${result.strategy}) left a match`);
+    assert(validator.hasValidMoves(), `shuffle (${result.strategy}) left no valid move`);
+}
+
+/**
+ * SAVE ROUND TRIP
+ * Plays a few bot turns, saves, and loads the save back the way
+ * Match3Game does: against the level id and the level's own pattern
+ */
+function checkSaveRoundTrip(level: LevelDefinition, seed: number) {
+    const board = createBoard(level);
+    const simulationOptions = createSimulationOptions(level);
+    const random = new SeededRandom(seed);
+    const simulator = new TurnSimulator(board, random, simulationOptions);
+    simulator.generate();
+    
+    const tracker = new ObjectiveTracker(level.objectives, board.countBlockerLayers());
+    const bot = new AutoplayBot(simulationOptions, createBotStrategy('greedy'), botSeedFor(seed));
+    let rotationAngle = 0;
+    let score = 0;
+    for (let turn = 0; turn < 3; turn++) {
+        const command = bot.chooseCommand({ board, rotationAngle, remainingRotations: 0, objectives: tracker.getProgress() });
+        if (!command) break;
+        
+        const outcome = simulator.apply(command, rotationAngle);
+        rotationAngle = outcome.rotationAngle;
+        score += outcome.score.total;
+        tracker.recordScore(score);
+    }
+    
+    const snapshot = {
+        board: board.clone(),
+        score,
+        rotationAngle,
+        remainingRotations: level.maxRotations,
+        remainingMoves: level.moveLimit,
+        randomState: random.getState(),
+        objectives: tracker.getProgress()
+    };
+    const json = serializeGame(level.id, seed, snapshot);
+    
+    const saved = deserializeGame(json, level.id, level.pattern);
+    assert(saved !== null, 'save was rejected by its own level');
+    assert(sameGrid(saved.snapshot.board.toTypeGrid(), board.toTypeGrid()), 'gem types changed in the round trip');
+    assert(saved.snapshot.board.countBlockerLayers() === board.countBlockerLayers(), 'blocker layers changed in the round trip');
+    assert(saved.snapshot.score === score && saved.snapshot.randomState === snapshot.randomState, 'score or random state changed in the round trip');
+    assert(saved.seed === seed, 'seed changed in the round trip');
+    
+    assert(deserializeGame(json, `${level.id}_other`, level.pattern) === null, 'save accepted for another level');
+    assert(deserializeGame(json, level.id, []) === null, 'save accepted for an empty board');
+    assert(deserializeGame(json, level.id, level.pattern.slice(1)) === null, 'save accepted for another board shape');
+}
+
+/**
+ * BLOCKERS
+ * A row of three chained gems of one type: ice beside it never locks,
+ * and the chained group scores once at cascade depth 1
+ */
+function checkBlockers(level: LevelDefinition, seed: number) {
+    const board = new BoardModel([
+        [3, 3, 3, 1],
+        [1, 2, 1, 1],
+        [1, 1, 1, 1]
+    ]);
+    const types = [[0, 0, 0, 1], [1, 2, 3, 2], [2, 3, 1, 3]];
+    types.forEach((row, rowIndex) => row.forEach((type, col) => board.setGem(rowIndex, col, { type })));
+    
+    assert(!board.isLocked(1, 1), 'ice locked its gem');
+    assert(board.isLocked(0, 0), 'chain did not lock its gem');
+    
+    // Refills never complete a match, so any second wave would be the chained group again
+    const simulator = new TurnSimulator(board, new SeededRandom(seed), {
+        gemTypes: 4,
+        spawnPolicy: { type: 'avoidMatch' },
+        enableAutoShuffle: false
+    });
+    const outcome = simulator.apply({ kind: 'rotate', degrees: 0 }, 0);
+    const depths = outcome.score.waves.map(wave => wave.cascadeDepth);
+    
+    assert(outcome.score.waves.length === 1, `chained group scored in ${outcome.score.waves.length} waves`);
+    assert(depths[0] === 1, `chained group scored at cascade depth ${depths[0]}`);
+    assert(outcome.clearedTypes.length === 3, `chained group removed ${outcome.clearedTypes.length} gems`);
+    
+    checkPartlyChainedGroup(seed);
+}
+
+/**
+ * PARTLY CHAINED GROUP
+ * One chained gem in a line of three: the wave breaks the chain, removes
+ * the other two and scores exactly those two gems
+ */
+function checkPartlyChainedGroup(seed: number) {
+    const board = new BoardModel([
+        [3, 1, 1, 1],
+        [1, 1, 1, 1],
+        [1, 1, 1, 1]
+    ]);
+    const types = [[0, 0, 0, 1], [1, 2, 3, 2], [2, 3, 1, 3]];
+    types.forEach((row, rowIndex) => row.forEach((type, col) => board.setGem(rowIndex, col, { type })));
+    
+    const simulator = new TurnSimulator(board, new SeededRandom(seed), {
+        gemTypes: 4,
+        spawnPolicy: { type: 'avoidMatch' },
+        enableAutoShuffle: false
+    });
+    const outcome = simulator.apply({ kind: 'rotate', degrees: 0 }, 0);
+    const wave = outcome.score.waves[0];
+    const gemPoints = wave.groups.reduce((sum, group) => sum + group.gemPoints, 0);
+    
+    assert(outcome.clearedTypes.length === 2, `partly chained group removed ${outcome.clearedTypes.length} gems`);
+    assert(board.hasGem(0, 0) && !board.isLocked(0, 0), 'chained gem was removed or kept its chain');
+    assert(gemPoints === 2 * DEFAULT_SCORE_CONFIG.pointsPerGem && wave.effectPoints === 0,
+        `partly chained group scored ${gemPoints} gem points and ${wave.effectPoints} effect points`);
+}
+
+const CHECKS: SmokeCheck[] = [
+    { name: 'gravity and refill', run: checkGravityAndRefill },
+    { name: 'straight refill', run: checkStraightRefill },
+    { name: 'shuffle', run: checkShuffle },
+    { name: 'save round trip', run: checkSaveRoundTrip },
+    { name: 'blockers', run: checkBlockers }
+];
+
+function main(): boolean {
+    const options = parseArgs(process.argv.slice(2));
+    const level = parseLevelDefinition(JSON.parse(fs.readFileSync(options.level, 'utf8')));
+    let passed = true;
+    
+    for (const check of CHECKS) {
+        const failures: string[] = [];
+        for (let seed = 1; seed <= options.seeds; seed++) {
+            try {
+                check.run(level, seed);
+            } catch (error) {
+                failures.push(`seed ${seed}: ${error.message}`);
+            }
+        }
+        
+        if (failures.length === 0) {
+            console.log(`ok    ${check.name}`);
+        } else {
+            passed = false;
+            console.log(`FAIL  ${check.name} (${failures.length}/${options.seeds} seeds)`);
+            failures.slice(0, 5).forEach(failure => console.log(`      ${failure}`));
+        }
+    }
+    
+    return passed;
+}
+
+try {
+    if (!main()) process.exit(1);
+} catch (error) {
+    console.error(`smoke: ${error.message}`);
+    process.exit(1);
+}